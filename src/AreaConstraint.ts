@@ -0,0 +1,126 @@
+/**
+ * AreaConstraint - Keeps the area enclosed by a ring of bodies close to a rest area
+ * Position-based like Constraint: each pass moves the ring's bodies along the area gradient,
+ * so a squashed blob pushes back out and recovers its volume (internal pressure)
+ */
+
+import type { Body } from './Body.js';
+import type { Joint } from './Joint.js';
+
+export interface AreaConstraintConfig {
+  bodies: Body[];      // Ring of bodies, in order around the outline
+  area?: number;       // Rest area in px² (default: current area)
+  pressure?: number;   // Target area as a multiple of the rest area - above 1 inflates (default: 1)
+  stiffness?: number;  // 0-1, higher = holds its area harder (default: 1)
+  priority?: number;   // Higher is solved earlier in each pass (default: 0)
+}
+
+export class AreaConstraint implements Joint {
+  bodies: Body[];
+  area: number;
+  pressure: number;
+  stiffness: number;
+  priority: number;
+
+  private _orientation: number; // Winding of the ring at rest (+1 or -1) - an inverted ring is pushed back
+
+  private static readonly _maxCorrection = 0.5; // Largest fraction of the target area corrected per pass
+
+  constructor(config: AreaConstraintConfig) {
+    if (config.bodies.length < 3) {
+      throw new Error('AreaConstraint needs at least 3 bodies');
+    }
+    this.bodies = config.bodies.slice();
+
+    const signedArea = this.getSignedArea();
+    this._orientation = signedArea < 0 ? -1 : 1;
+    this.area = config.area ?? Math.abs(signedArea);
+    this.pressure = config.pressure ?? 1;
+    this.stiffness = config.stiffness ?? 1;
+    this.priority = config.priority ?? 0;
+  }
+
+  getBodies(): Body[] {
+    return this.bodies;
+  }
+
+  isFixed(): boolean {
+    return false;
+  }
+
+  /**
+   * Current enclosed area (shoelace formula over body centres)
+   */
+  getArea(): number {
+    return Math.abs(this.getSignedArea());
+  }
+
+  /**
+   * Enclosed area, positive for one winding and negative for the other
+   */
+  getSignedArea(): number {
+    let area = 0;
+    const count = this.bodies.length;
+    for (let i = 0; i < count; i++) {
+      const a = this.bodies[i].getCenter();
+      const b = this.bodies[(i + 1) % count].getCenter();
+      area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+  }
+
+  /**
+   * Solve using a single position-based step along the area gradient
+   * dA/dp_i = ½ · perp(p_(i+1) - p_(i-1)), each body moved in proportion to its inverse mass
+   */
+  solve(timeScale: number): void {
+    const count = this.bodies.length;
+    const centers = this.bodies.map(body => body.getCenter());
+
+    // Held bodies (static, dragged, sleeping, disabled) don't move - the rest of the ring compensates
+    const inverseMasses = this.bodies.map(body =>
+      (body.isStatic || body.isDragged || body.isSleeping || !body.enabled) ? 0 : body.inverseMass
+    );
+
+    const targetArea = this._orientation * this.area * this.pressure;
+    let signedArea = 0;
+    for (let i = 0; i < count; i++) {
+      const a = centers[i];
+      const b = centers[(i + 1) % count];
+      signedArea += a.x * b.y - b.x * a.y;
+    }
+    signedArea /= 2;
+
+    // Clamp large violations like Constraint does, so a crushed ring recovers over a few steps
+    const maxError = Math.abs(targetArea) * AreaConstraint._maxCorrection;
+    const error = Math.max(-maxError, Math.min(maxError, signedArea - targetArea));
+    if (error === 0) return;
+
+    const gradientsX: number[] = [];
+    const gradientsY: number[] = [];
+    let denominator = 0;
+    for (let i = 0; i < count; i++) {
+      const previous = centers[(i - 1 + count) % count];
+      const next = centers[(i + 1) % count];
+      const gradientX = (next.y - previous.y) / 2;
+      const gradientY = (previous.x - next.x) / 2;
+      gradientsX.push(gradientX);
+      gradientsY.push(gradientY);
+      denominator += inverseMasses[i] * (gradientX * gradientX + gradientY * gradientY);
+    }
+    if (denominator === 0) return; // Every body is held
+
+    // Same stiffness scaling as Constraint: rigid scales with timeScale, soft with its square
+    const stiffness = this.stiffness >= 1
+      ? this.stiffness * timeScale
+      : this.stiffness * timeScale * timeScale;
+    const lambda = -error / denominator * stiffness;
+
+    for (let i = 0; i < count; i++) {
+      if (inverseMasses[i] === 0) continue;
+      const body = this.bodies[i];
+      body.x += lambda * inverseMasses[i] * gradientsX[i];
+      body.y += lambda * inverseMasses[i] * gradientsY[i];
+    }
+  }
+}
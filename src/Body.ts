@@ -5,16 +5,79 @@
 
 // Import World type for type annotations
 import type { World } from './World.js';
+import { EventEmitter, type BodyEvents, type EventHandler } from './Events.js';
+
+export type BodyShape = 'circle' | 'box';
+
+/**
+ * Which bodies this body collides with (like Matter.js body.collisionFilter)
+ * Same non-zero group: positive always collides, negative never collides.
+ * Otherwise both masks must include the other body's category bit.
+ */
+export interface CollisionFilter {
+  category: number; // Single bit (default: 0x0001)
+  mask: number;     // Categories this body collides with (default: 0xFFFFFFFF, everything)
+  group: number;    // Default: 0 (no group)
+}
 
 export interface BodyConfig {
   mass?: number;
+  shape?: BodyShape; // Default: 'circle'
   radius?: number;
+  width?: number;    // Box size (default: element's bounding rect)
+  height?: number;
+  angle?: number;    // Initial rotation in radians (default: 0)
+  inertia?: number;  // Default: derived from shape and mass (Infinity = never rotates)
   restitution?: number | null;
   friction?: number | null;
+  staticFriction?: number | null;  // Coulomb friction against other bodies while not sliding (default: world's)
+  kineticFriction?: number | null; // Coulomb friction against other bodies while sliding (default: world's)
   isStatic?: boolean;
+  draggable?: boolean; // Default: true (picked up by DragController)
+  sleepThreshold?: number; // Quiet steps before sleeping when world.enableSleeping (default: 60, 0 = never)
+  collisionFilter?: Partial<CollisionFilter>;
+  isSensor?: boolean; // Detect overlaps without a physical response (default: false)
+  bullet?: boolean;   // Always sweep against static obstacles, however slow (default: false)
+}
+
+/**
+ * How returnHome() brings a body back to its origin
+ * A duration glides it there on an ease-out curve; otherwise a damped spring pulls it in,
+ * carrying on from the body's current velocity.
+ */
+export interface ReturnHomeOptions {
+  duration?: number; // Seconds to glide home (default: use the spring)
+  spring?: { stiffness?: number; damping?: number }; // Per s² and per s (default: 100 and 12, a little bounce)
+  restoreLayout?: boolean; // Put the element back into the page flow on arrival (default: false)
 }
 
+export interface BodyDestroyOptions {
+  restoreStyles?: boolean; // Put the element back into the page flow (default: true)
+}
+
+// A return home in progress
+interface HomeReturn {
+  duration: number | null; // null = spring
+  elapsed: number;         // seconds
+  start: { x: number; y: number; angle: number };
+  stiffness: number;
+  damping: number;
+  velocityX: number;       // Spring velocity in px/s
+  velocityY: number;
+  angularVelocity: number; // rad/s
+  restoreLayout: boolean;
+}
+
+// Inline styles Body may change, as the element had them before
+type LayoutStyles = Record<'position' | 'left' | 'top' | 'transform' | 'transform-origin' | 'display', string>;
+
+let nextBodyId = 0;
+let nextCollidingGroupId = 1;
+let nextNonCollidingGroupId = -1;
+let nextCategoryBit = 0x0001;
+
 export class Body {
+  id: number; // Unique per body, used to key collision pairs
   element: HTMLElement;
   world: World;
   originalParent: HTMLElement | null;
@@ -23,6 +86,11 @@ export class Body {
   originX: number;
   originY: number;
   
+  // World-space position of the element in the page flow, where returnHome() goes
+  // (the origin moves to wherever the body is when render() takes it out of the flow)
+  homeX: number;
+  homeY: number;
+  
   // Physics state (relative to origin)
   x: number;
   y: number;
@@ -30,35 +98,81 @@ export class Body {
   prevY: number;
   fx: number; // Accumulated force (like Matter.js body.force)
   fy: number;
+  angle: number; // Rotation in radians about the shape centre
+  prevAngle: number;
+  torque: number; // Accumulated torque (like Matter.js body.torque)
+  deltaTime: number; // Seconds covered by the last integration (like Matter.js body.deltaTime)
+  previousState: { x: number; y: number; angle: number }; // Pose at the start of the last step (render interpolation)
   
   // Constraint support (like Matter.js)
   constraintImpulseX: number; // Cached constraint corrections for warming
   constraintImpulseY: number;
   inverseMass: number; // 1/mass for constraint force distribution
+  inertia: number; // Moment of inertia (Infinity = fixed rotation)
+  inverseInertia: number;
   
   // Properties
   mass: number;
-  radius: number;
+  shape: BodyShape;
+  radius: number; // Circle radius; bounding radius for boxes
+  width: number;
+  height: number;
   restitution: number | null;
-  friction: number | null;
+  friction: number | null; // Air friction - velocity kept per 1/60s
+  staticFriction: number | null;
+  kineticFriction: number | null;
   isStatic: boolean;
   enabled: boolean;
   isDragged: boolean; // Flag to skip physics when being dragged
+  draggable: boolean; // Opt-out for DragController
+  collisionFilter: CollisionFilter;
+  isSensor: boolean;
+  bullet: boolean; // Swept every step (continuous collision), not only above world.ccdSpeedThreshold
+  events: EventEmitter<BodyEvents>; // Per-body subscriptions (collisions involving this body)
+  
+  // Sleeping (like Matter.js Sleeping)
+  isSleeping: boolean;
+  sleepThreshold: number; // Quiet steps needed before sleeping
+  sleepCounter: number;   // Quiet steps so far
+  motion: number;         // Biased average of speed² + angular speed², updated by World
+  private _renderedAsleep: boolean = false;
+  
+  // Returning to the origin (returnHome)
+  private _home: HomeReturn | null = null;
+  private _layoutStyles: LayoutStyles;
+  private _outOfFlow: boolean = false; // render() made the element absolute
+  
+  private static readonly _baseDelta = 1 / 60; // Step length that velocities and friction are tuned for (like Matter.js)
+  private static readonly _homeTolerance = 0.5;     // px (and 0.01 rad) from the origin that counts as home
+  private static readonly _homeSpeedTolerance = 5;  // px/s (and 0.05 rad/s) below which a spring return may finish
+  private static readonly _homeEpsilon = 0.000001;
+  private static readonly _minVelocity = 0.05;      // px per 1/60s below which a force-free body stops
 
   constructor(element: HTMLElement, world: World, config: BodyConfig = {}) {
+    this.id = nextBodyId++;
     this.element = element;
     this.world = world;
     
-    // Capture original parent
+    // Capture original parent and the inline styles restoreLayout() puts back
     this.originalParent = element.parentElement;
+    this._layoutStyles = {
+      position: element.style.position,
+      left: element.style.left,
+      top: element.style.top,
+      transform: element.style.transform,
+      'transform-origin': element.style.transformOrigin,
+      display: element.style.display
+    };
     
     // Get world and element positions
-    const worldRect = world.container.getBoundingClientRect();
+    const worldOrigin = world.worldToClient(0, 0);
     const elemRect = element.getBoundingClientRect();
     
     // Calculate origin in world space
-    this.originX = elemRect.left - worldRect.left;
-    this.originY = elemRect.top - worldRect.top;
+    this.originX = elemRect.left - worldOrigin.x;
+    this.originY = elemRect.top - worldOrigin.y;
+    this.homeX = this.originX;
+    this.homeY = this.originY;
     
     // Physics state (relative to origin)
     this.x = 0;
@@ -67,6 +181,11 @@ export class Body {
     this.prevY = 0;
     this.fx = 0; // Force accumulator (like Matter.js)
     this.fy = 0;
+    this.angle = config.angle ?? 0;
+    this.prevAngle = this.angle;
+    this.torque = 0;
+    this.deltaTime = world.timeStep;
+    this.previousState = { x: 0, y: 0, angle: this.angle };
     
     // Constraint support
     this.constraintImpulseX = 0;
@@ -74,15 +193,42 @@ export class Body {
     
     // Properties
     this.mass = config.mass ?? 1;
-    this.radius = config.radius ?? Math.max(elemRect.width, elemRect.height) / 2;
+    this.shape = config.shape ?? 'circle';
+    this.width = config.width ?? elemRect.width;
+    this.height = config.height ?? elemRect.height;
+    this.radius = config.radius ?? (this.shape === 'box'
+      ? Math.sqrt(this.width * this.width + this.height * this.height) / 2
+      : Math.max(elemRect.width, elemRect.height) / 2);
     this.restitution = config.restitution !== undefined ? config.restitution : null;
     this.friction = config.friction !== undefined ? config.friction : null;
+    this.staticFriction = config.staticFriction ?? null;
+    this.kineticFriction = config.kineticFriction ?? null;
     this.isStatic = config.isStatic ?? false;
     this.enabled = true;
     this.isDragged = false;
+    this.draggable = config.draggable ?? true;
+    this.isSensor = config.isSensor ?? false;
+    this.bullet = config.bullet ?? false;
+    this.collisionFilter = {
+      category: config.collisionFilter?.category ?? 0x0001,
+      mask: config.collisionFilter?.mask ?? 0xFFFFFFFF,
+      group: config.collisionFilter?.group ?? 0
+    };
+    this.events = new EventEmitter<BodyEvents>();
+    this.isSleeping = false;
+    this.sleepThreshold = config.sleepThreshold ?? 60;
+    this.sleepCounter = 0;
+    this.motion = 0;
     
-    // Calculate inverseMass after isStatic is set
-    this.inverseMass = this.isStatic ? 0 : (this.mass > 0 ? 1 / this.mass : 0);
+    // Moment of inertia about the centre: solid disc (½mr²) or rectangle (m(w²+h²)/12)
+    this.inertia = config.inertia ?? (this.shape === 'box'
+      ? this.mass * (this.width * this.width + this.height * this.height) / 12
+      : 0.5 * this.mass * this.radius * this.radius);
+    
+    // Calculate inverse mass and inertia after isStatic is set
+    this.inverseMass = 0;
+    this.inverseInertia = 0;
+    this._updateInverseMass();
     
     // Ensure can be transformed
     const display = getComputedStyle(element).display;
@@ -91,15 +237,264 @@ export class Body {
     }
   }
   
-  applyForce(fx: number, fy: number): void {
+  /**
+   * Get a new collision group id (like Matter.js Body.nextGroup)
+   * Non-colliding groups are negative: members never collide with each other
+   */
+  static nextGroup(isNonColliding: boolean = false): number {
+    return isNonColliding ? nextNonCollidingGroupId-- : nextCollidingGroupId++;
+  }
+  
+  /**
+   * Get the next unused collision category bit (like Matter.js Body.nextCategory)
+   * The default category 0x0001 is never returned; at most 31 categories are available
+   */
+  static nextCategory(): number {
+    nextCategoryBit = nextCategoryBit << 1;
+    return nextCategoryBit;
+  }
+  
+  /**
+   * Subscribe to events involving this body
+   * Returns a function that removes the handler again
+   */
+  on<K extends keyof BodyEvents>(name: K, handler: EventHandler<BodyEvents[K]>): () => void {
+    return this.events.on(name, handler);
+  }
+  
+  off<K extends keyof BodyEvents>(name: K, handler: EventHandler<BodyEvents[K]>): void {
+    this.events.off(name, handler);
+  }
+  
+  /**
+   * Measure the origin again, e.g. after the layout around an in-flow element reflowed
+   * The body moves with its origin: x/y (the offset from it) and the velocity are kept.
+   */
+  updateOrigin(): void {
+    const position = this._measureLayoutBox();
+    this.originX = position.x;
+    this.originY = position.y;
+  }
+  
+  /**
+   * Measure where each body's element sits in the page flow (homeX/homeY)
+   * Elements render() took out of the flow are put back while measuring, so every home is
+   * measured with the page laid out as written - not around siblings already lifted out.
+   */
+  static measureHomes(bodies: Body[]): void {
+    const lifted = bodies.filter(body => body._outOfFlow);
+    const liftedStyles = lifted.map(body => body._swapStyles(body._layoutStyles));
+    for (const body of bodies) {
+      const home = body._measureLayoutBox();
+      body.homeX = home.x;
+      body.homeY = home.y;
+    }
+    lifted.forEach((body, index) => body._swapStyles(liftedStyles[index]));
+  }
+  
+  /**
+   * World-space position of the element's layout box, not where the current transform draws it
+   */
+  private _measureLayoutBox(): { x: number; y: number } {
+    const transform = this.element.style.transform;
+    this.element.style.transform = '';
+    const rect = this.element.getBoundingClientRect();
+    this.element.style.transform = transform;
+    
+    const worldOrigin = this.world.worldToClient(0, 0);
+    return { x: rect.left - worldOrigin.x, y: rect.top - worldOrigin.y };
+  }
+  
+  /**
+   * Write the given inline layout styles, returning the ones they replaced
+   */
+  private _swapStyles(styles: LayoutStyles): LayoutStyles {
+    const previous = {} as LayoutStyles;
+    for (const [property, value] of Object.entries(styles) as Array<[keyof LayoutStyles, string]>) {
+      previous[property] = this.element.style.getPropertyValue(property);
+      this.element.style.setProperty(property, value);
+    }
+    return previous;
+  }
+  
+  /**
+   * Move the body without changing its velocity (like Matter.js Body.translate)
+   */
+  translate(dx: number, dy: number): void {
+    this.x += dx;
+    this.y += dy;
+    this.prevX += dx;
+    this.prevY += dy;
+    this.setSleeping(false);
+  }
+  
+  /**
+   * Turn the body about its centre without changing its angular velocity
+   */
+  rotate(angle: number): void {
+    this.angle += angle;
+    this.prevAngle += angle;
+    this.setSleeping(false);
+  }
+  
+  /**
+   * Change the mass, scaling inertia with it (same shape, denser material)
+   */
+  setMass(mass: number): void {
+    if (this.mass > 0 && isFinite(this.inertia)) {
+      this.inertia *= mass / this.mass;
+    }
+    this.mass = mass;
+    this._updateInverseMass();
+  }
+  
+  /**
+   * Make the body static (immovable) or dynamic
+   * Becoming static stops the body where it is; becoming dynamic ends a return home
+   */
+  setStatic(isStatic: boolean): void {
+    this.isStatic = isStatic;
+    if (isStatic) {
+      this.prevX = this.x;
+      this.prevY = this.y;
+      this.prevAngle = this.angle;
+    } else {
+      this._home = null;
+    }
+    this._updateInverseMass();
+  }
+  
+  /**
+   * Animate the body back to its place in the page flow (homeX, homeY) with no rotation, e.g.
+   * to reassemble exploded text
+   * The body is static on the way, so it shoves other bodies aside rather than being stopped
+   * by them, and stays static at home. Emits returnedHome on arrival; setStatic(false) lets it
+   * fall again.
+   */
+  returnHome(options: ReturnHomeOptions = {}): void {
+    // Spin back the short way round
+    const turns = Math.round(this.angle / (2 * Math.PI)) * 2 * Math.PI;
+    this.angle -= turns;
+    this.prevAngle -= turns;
+    
+    // The spring carries on from the current velocity
+    const dt = this.deltaTime > 0 ? this.deltaTime : this.world.timeStep;
+    const velocityX = (this.x - this.prevX) / dt;
+    const velocityY = (this.y - this.prevY) / dt;
+    const angularVelocity = (this.angle - this.prevAngle) / dt;
+    
+    this.setSleeping(false);
+    this.setStatic(true);
+    this._home = {
+      duration: options.duration ?? null,
+      elapsed: 0,
+      start: { x: this.x, y: this.y, angle: this.angle },
+      stiffness: options.spring?.stiffness ?? 100,
+      damping: options.spring?.damping ?? 12,
+      velocityX,
+      velocityY,
+      angularVelocity,
+      restoreLayout: options.restoreLayout ?? false
+    };
+    this.world.resume(); // Static bodies alone would let a paused loop stay paused
+  }
+  
+  get isReturningHome(): boolean {
+    return this._home !== null;
+  }
+  
+  /**
+   * Put the element back into the normal page flow
+   * Puts back the inline position, left, top, transform and display the element had before the
+   * body changed them, moves the body home and measures its origin again from the reflowed
+   * layout. A dynamic body leaves the flow again the next time it renders, so make it
+   * static first if it should stay (returnHome does).
+   */
+  restoreLayout(): void {
+    this._home = null;
+    this._restoreStyles();
+    
+    this.x = 0;
+    this.y = 0;
+    this.prevX = 0;
+    this.prevY = 0;
+    this.angle = 0;
+    this.prevAngle = 0;
+    this.previousState = { x: 0, y: 0, angle: 0 };
+    this.updateOrigin();
+  }
+  
+  private _updateInverseMass(): void {
+    this.inverseMass = this.isStatic ? 0 : (this.mass > 0 ? 1 / this.mass : 0);
+    this.inverseInertia = this.isStatic ? 0 : (this.inertia > 0 && isFinite(this.inertia) ? 1 / this.inertia : 0);
+  }
+  
+  /**
+   * Bodies currently inside this sensor (empty for non-sensors)
+   */
+  getOccupants(): Body[] {
+    return this.isSensor ? this.world.getSensorOccupants(this) : [];
+  }
+  
+  /**
+   * Put the body to sleep or wake it up
+   * A sleeping body keeps its position, skips integration and rendering, and acts as static
+   * in collisions and constraints until something wakes it.
+   */
+  setSleeping(isSleeping: boolean): void {
+    if (this.isSleeping === isSleeping) return;
+    this.isSleeping = isSleeping;
+    
+    if (isSleeping) {
+      this.sleepCounter = this.sleepThreshold;
+      this.prevX = this.x;
+      this.prevY = this.y;
+      this.prevAngle = this.angle;
+      this.previousState = { x: this.x, y: this.y, angle: this.angle };
+      this.fx = 0;
+      this.fy = 0;
+      this.torque = 0;
+      this.motion = 0;
+      this.events.emit('sleepStart', { body: this });
+      this.world.events.emit('sleepStart', { body: this });
+    } else {
+      this.sleepCounter = 0;
+      this._renderedAsleep = false;
+      this.events.emit('sleepEnd', { body: this });
+      this.world.events.emit('sleepEnd', { body: this });
+      this.world.resume(); // Restart the loop if everything had been asleep
+    }
+  }
+  
+  /**
+   * Apply a force, optionally at a world-space point
+   * Forces applied away from the centre also accumulate torque (like Matter.js)
+   */
+  applyForce(fx: number, fy: number, point?: { x: number; y: number }): void {
     if (this.isStatic || !this.enabled) return;
+    this.setSleeping(false);
     // Accumulate forces directly (like Matter.js)
     this.fx += fx;
     this.fy += fy;
+    
+    if (point) {
+      const center = this.getCenter();
+      this.torque += (point.x - center.x) * fy - (point.y - center.y) * fx;
+    }
+  }
+  
+  applyTorque(torque: number): void {
+    if (this.isStatic || !this.enabled) return;
+    this.setSleeping(false);
+    this.torque += torque;
   }
   
   integrate(dt: number, world: World): void {
-    if (this.isStatic || !this.enabled || this.isDragged) return;
+    if (this._home) {
+      this._stepHome(dt);
+      return;
+    }
+    if (this.isStatic || !this.enabled || this.isDragged || this.isSleeping) return;
     
     // Matter.js exact Verlet integration:
     // velocity = (velocityPrev * frictionAir) + (force / mass) * deltaTimeSquared
@@ -110,21 +505,33 @@ export class Body {
     
     // Calculate previous velocity from position difference (Matter.js style)
     // Matter.js: velocityPrevX = (body.position.x - body.positionPrev.x) * correction
-    const velocityPrevX = (this.x - this.prevX);
-    const velocityPrevY = (this.y - this.prevY);
+    // The correction rescales last step's displacement to this step's length (time-corrected Verlet)
+    const correction = dt / this.deltaTime;
+    this.deltaTime = dt;
+    const velocityPrevX = (this.x - this.prevX) * correction;
+    const velocityPrevY = (this.y - this.prevY) * correction;
     
     // Get friction (air resistance in Matter.js terms)
     // Matter.js: frictionAir = 1 - body.frictionAir * (deltaTime / baseDelta)
-    // We use a simpler approach: direct friction multiplier
-    const friction = this.friction !== null ? this.friction : world.friction;
+    // Our friction is a multiplier per 1/60s step, so it is raised to the number of base steps in dt
+    const baseFriction = this.friction !== null ? this.friction : world.friction;
+    const friction = Math.pow(baseFriction, dt / Body._baseDelta);
     
     // Matter.js exact formula: velocity = (velocityPrev * frictionAir) + (force / mass) * deltaTimeSquared
     const velocityX = (velocityPrevX * friction) + (this.fx / this.mass) * deltaTimeSquared;
     const velocityY = (velocityPrevY * friction) + (this.fy / this.mass) * deltaTimeSquared;
     
+    // Angular Verlet step (same form as the linear one, friction damps spin too)
+    const angularVelocity = (this.angle - this.prevAngle) * correction * friction + this.torque * this.inverseInertia * deltaTimeSquared;
+    this.prevAngle = this.angle;
+    if (this.torque !== 0 || Math.abs(angularVelocity) > 0.0001) {
+      this.angle += angularVelocity;
+    }
+    this.torque = 0;
+    
     // Apply minimum velocity threshold to stop micro-jiggling
     // BUT: Don't stop if forces are being applied (gravity, etc.) - let them accelerate
-    const minVelocity = 0.05; // pixels per frame
+    const minVelocity = Body._minVelocity * dt / Body._baseDelta; // Scaled to this step's length
     const hasActiveForces = Math.abs(this.fx) > 0.001 || Math.abs(this.fy) > 0.001;
     
     // Only stop if velocity is very small AND no forces are being applied
@@ -163,6 +570,83 @@ export class Body {
     this.fy = 0;
   }
   
+  /**
+   * Detach the body for good: it leaves the world (with the joints attached to it and its place
+   * in a composite), its event handlers are dropped and, unless restoreStyles is false, the
+   * element gets back the inline styles it had before the body changed them
+   */
+  destroy(options: BodyDestroyOptions = {}): void {
+    this._home = null;
+    this.world.removeBody(this);
+    this.events.removeAllListeners();
+    if (options.restoreStyles ?? true) {
+      this._restoreStyles();
+    }
+  }
+  
+  private _restoreStyles(): void {
+    this._outOfFlow = false;
+    for (const [property, value] of Object.entries(this._layoutStyles)) {
+      this.element.style.setProperty(property, value);
+    }
+  }
+  
+  /**
+   * Move one step of a return home - kinematic, so prev keeps the step's velocity for contacts
+   */
+  private _stepHome(dt: number): void {
+    const home = this._home!;
+    home.elapsed += dt;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.prevAngle = this.angle;
+    this.deltaTime = dt;
+    
+    // Home relative to the current origin
+    const targetX = this.homeX - this.originX;
+    const targetY = this.homeY - this.originY;
+    
+    let arrived: boolean;
+    if (home.duration !== null) {
+      // Ease-out cubic from the start pose
+      const t = home.duration > 0 ? Math.min(1, home.elapsed / home.duration) : 1;
+      arrived = t >= 1 - Body._homeEpsilon; // Steps summed in floating point fall just short
+      const remaining = Math.pow(1 - t, 3);
+      this.x = targetX + (home.start.x - targetX) * remaining;
+      this.y = targetY + (home.start.y - targetY) * remaining;
+      this.angle = home.start.angle * remaining;
+    } else {
+      // Damped spring towards home (semi-implicit Euler)
+      home.velocityX += (-home.stiffness * (this.x - targetX) - home.damping * home.velocityX) * dt;
+      home.velocityY += (-home.stiffness * (this.y - targetY) - home.damping * home.velocityY) * dt;
+      home.angularVelocity += (-home.stiffness * this.angle - home.damping * home.angularVelocity) * dt;
+      this.x += home.velocityX * dt;
+      this.y += home.velocityY * dt;
+      this.angle += home.angularVelocity * dt;
+      
+      const tolerance = Body._homeTolerance;
+      const speedTolerance = Body._homeSpeedTolerance;
+      arrived = Math.abs(this.x - targetX) < tolerance && Math.abs(this.y - targetY) < tolerance &&
+        Math.abs(this.angle) < tolerance * 0.02 &&
+        Math.abs(home.velocityX) < speedTolerance && Math.abs(home.velocityY) < speedTolerance &&
+        Math.abs(home.angularVelocity) < speedTolerance * 0.01;
+    }
+    if (!arrived) return;
+    
+    this._home = null;
+    this.x = targetX;
+    this.y = targetY;
+    this.angle = 0;
+    this.prevX = targetX;
+    this.prevY = targetY;
+    this.prevAngle = 0;
+    if (home.restoreLayout) {
+      this.restoreLayout();
+    }
+    this.events.emit('returnedHome', { body: this });
+    this.world.events.emit('returnedHome', { body: this });
+  }
+  
   getWorldPosition(): { x: number; y: number } {
     return {
       x: this.originX + this.x,
@@ -170,18 +654,162 @@ export class Body {
     };
   }
   
-  render(): void {
+  /**
+   * Get world-space centre of the collision shape
+   * Circles are centred on the world position; boxes span width × height from it
+   */
+  getCenter(): { x: number; y: number } {
+    const pos = this.getWorldPosition();
+    if (this.shape === 'box') {
+      return { x: pos.x + this.width / 2, y: pos.y + this.height / 2 };
+    }
+    return pos;
+  }
+  
+  /**
+   * Transform a point local to the body (relative to its world position, unrotated)
+   * into world space, rotating it about the shape centre by the body's angle
+   */
+  getWorldPoint(local: { x: number; y: number }): { x: number; y: number } {
+    const pos = this.getWorldPosition();
+    if (this.angle === 0) {
+      return { x: pos.x + local.x, y: pos.y + local.y };
+    }
+    const center = this.getCenter();
+    const offsetX = pos.x + local.x - center.x;
+    const offsetY = pos.y + local.y - center.y;
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    return {
+      x: center.x + offsetX * cos - offsetY * sin,
+      y: center.y + offsetX * sin + offsetY * cos
+    };
+  }
+  
+  /**
+   * Inverse of getWorldPoint: world-space point to unrotated body-local coordinates
+   */
+  getLocalPoint(point: { x: number; y: number }): { x: number; y: number } {
+    const pos = this.getWorldPosition();
+    if (this.angle === 0) {
+      return { x: point.x - pos.x, y: point.y - pos.y };
+    }
+    const center = this.getCenter();
+    const offsetX = point.x - center.x;
+    const offsetY = point.y - center.y;
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    return {
+      x: center.x + offsetX * cos + offsetY * sin - pos.x,
+      y: center.y - offsetX * sin + offsetY * cos - pos.y
+    };
+  }
+  
+  /**
+   * Check whether a world-space point lies inside the collision shape
+   */
+  containsPoint(x: number, y: number): boolean {
+    const center = this.getCenter();
+    const dx = x - center.x;
+    const dy = y - center.y;
+    if (this.shape !== 'box') {
+      return dx * dx + dy * dy <= this.radius * this.radius;
+    }
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    const localX = dx * cos + dy * sin;
+    const localY = -dx * sin + dy * cos;
+    return Math.abs(localX) <= this.width / 2 && Math.abs(localY) <= this.height / 2;
+  }
+  
+  /**
+   * Get the point of the shape furthest along a unit direction
+   * Box vertices that tie (a flat face) are averaged, giving the middle of the face
+   */
+  getSupportPoint(dirX: number, dirY: number): { x: number; y: number } {
+    const center = this.getCenter();
+    if (this.shape !== 'box') {
+      return { x: center.x + dirX * this.radius, y: center.y + dirY * this.radius };
+    }
+    
+    const cos = Math.cos(this.angle);
+    const sin = Math.sin(this.angle);
+    const hx = this.width / 2;
+    const hy = this.height / 2;
+    const vertices = [[-hx, -hy], [hx, -hy], [hx, hy], [-hx, hy]].map(([lx, ly]) => ({
+      x: center.x + lx * cos - ly * sin,
+      y: center.y + lx * sin + ly * cos
+    }));
+    const projections = vertices.map(v => v.x * dirX + v.y * dirY);
+    const max = Math.max(...projections);
+    const support = vertices.filter((_, i) => projections[i] > max - 0.5);
+    return {
+      x: support.reduce((sum, v) => sum + v.x, 0) / support.length,
+      y: support.reduce((sum, v) => sum + v.y, 0) / support.length
+    };
+  }
+  
+  /**
+   * Get world-space axis-aligned bounds of the collision shape (rotated boxes included)
+   */
+  getBounds(): { minX: number; minY: number; maxX: number; maxY: number } {
+    const center = this.getCenter();
+    let hx = this.radius;
+    let hy = this.radius;
+    if (this.shape === 'box') {
+      const cos = Math.abs(Math.cos(this.angle));
+      const sin = Math.abs(Math.sin(this.angle));
+      hx = (this.width / 2) * cos + (this.height / 2) * sin;
+      hy = (this.width / 2) * sin + (this.height / 2) * cos;
+    }
+    return {
+      minX: center.x - hx,
+      minY: center.y - hy,
+      maxX: center.x + hx,
+      maxY: center.y + hy
+    };
+  }
+  
+  /**
+   * Write the body's transform to its element
+   * alpha < 1 blends from the pose at the start of the last step towards the current pose
+   * (render interpolation between fixed steps)
+   */
+  render(alpha: number = 1): void {
+    // Sleeping bodies don't move - keep the transform written when they fell asleep
+    if (this.isSleeping) {
+      if (this._renderedAsleep) return;
+      this._renderedAsleep = true;
+    }
+    
     // For static bodies, don't apply transform - keep them in normal flow
     // This preserves spacing between letters in text demos
-    if (this.isStatic && this.x === 0 && this.y === 0) {
+    if (this.isStatic && this.x === 0 && this.y === 0 && this.angle === 0) {
 
       // Reset transform to keep in flow
       this.element.style.transform = '';
       return;
     }
     
+    let x = this.x;
+    let y = this.y;
+    let angle = this.angle;
+    if (alpha < 1) {
+      const previous = this.previousState;
+      x = previous.x + (x - previous.x) * alpha;
+      y = previous.y + (y - previous.y) * alpha;
+      angle = previous.angle + (angle - previous.angle) * alpha;
+    }
+    
     // For dynamic bodies or moved static bodies, apply transform
-    this.element.style.transform = `translate(${this.x}px, ${this.y}px)`;
+    // rotate() turns about the transform-origin, which must be the physics centre: the middle
+    // of a box (the default) but the top-left corner of a circle
+    if (angle !== 0 && this.shape !== 'box') {
+      this.element.style.transformOrigin = '0 0';
+    }
+    this.element.style.transform = angle !== 0
+      ? `translate(${x}px, ${y}px) rotate(${angle}rad)`
+      : `translate(${x}px, ${y}px)`;
     
     // Once a body moves, it needs to be positioned absolutely to not affect layout
     if (!this.isStatic && this.element.style.position !== 'absolute') {
@@ -191,12 +819,12 @@ export class Body {
         this.element.style.display = 'inline-block';
       }
       
-      const rect = this.element.getBoundingClientRect();
-      const worldRect = this.world.container.getBoundingClientRect();
-      const currentX = rect.left - worldRect.left;
-      const currentY = rect.top - worldRect.top;
+      this.updateOrigin();
+      const currentX = this.originX + this.x;
+      const currentY = this.originY + this.y;
       
       // Set absolute position based on current world position
+      this._outOfFlow = true;
       this.element.style.position = 'absolute';
       this.element.style.left = `${currentX}px`;
       this.element.style.top = `${currentY}px`;
@@ -208,6 +836,8 @@ export class Body {
       this.y = 0;
       this.prevX = 0;
       this.prevY = 0;
+      this.previousState.x = 0;
+      this.previousState.y = 0;
     }
   }
 }
@@ -0,0 +1,122 @@
+/**
+ * BroadPhase - Finds candidate collision pairs before narrow-phase resolution
+ * Default is a uniform grid (spatial hash); brute force is kept for comparison
+ */
+
+import type { Body } from './Body.js';
+
+/**
+ * A broad phase returns every pair of bodies that might be touching this step.
+ * Pairs are ordered by the bodies' index in the input array (lower index first,
+ * then by partner index) so resolution order matches the original pair loop.
+ * Bounds need no velocity padding - World sweeps fast bodies separately (continuous collision).
+ */
+export interface BroadPhase {
+  getPairs(bodies: Body[]): Array<[Body, Body]>;
+}
+
+/**
+ * Checks every pair - O(n²), but no setup cost
+ * Matches the original World.step() pair loop without its 100px cutoff
+ */
+export class BruteForceBroadPhase implements BroadPhase {
+  getPairs(bodies: Body[]): Array<[Body, Body]> {
+    const pairs: Array<[Body, Body]> = [];
+    const bounds = bodies.map(body => body.getBounds());
+
+    for (let i = 0; i < bodies.length; i++) {
+      const boundsA = bounds[i];
+      for (let j = i + 1; j < bodies.length; j++) {
+        const boundsB = bounds[j];
+        if (boundsA.maxX < boundsB.minX || boundsB.maxX < boundsA.minX ||
+            boundsA.maxY < boundsB.minY || boundsB.maxY < boundsA.minY) {
+          continue;
+        }
+        pairs.push([bodies[i], bodies[j]]);
+      }
+    }
+
+    return pairs;
+  }
+}
+
+/**
+ * Uniform grid broad phase
+ * Each body is inserted into every cell its bounds overlap, so any two bodies
+ * that can touch share at least one cell regardless of cell size.
+ */
+export class SpatialHashBroadPhase implements BroadPhase {
+  /** Fixed cell size in px; null = derive from body radii every step */
+  cellSize: number | null;
+
+  private static readonly _minCellSize = 8; // Avoid huge cell counts for tiny particles
+
+  constructor(cellSize: number | null = null) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Cell size derived from body radii (twice the mean radius)
+   * The mean rather than the max keeps one huge body from collapsing the grid
+   */
+  getCellSize(bodies: Body[]): number {
+    if (this.cellSize !== null) return this.cellSize;
+    if (bodies.length === 0) return SpatialHashBroadPhase._minCellSize;
+
+    let totalRadius = 0;
+    for (const body of bodies) {
+      totalRadius += body.radius;
+    }
+    return Math.max(SpatialHashBroadPhase._minCellSize, (totalRadius / bodies.length) * 2);
+  }
+
+  getPairs(bodies: Body[]): Array<[Body, Body]> {
+    const cellSize = this.getCellSize(bodies);
+    const bounds = bodies.map(body => body.getBounds());
+    const cells = new Map<string, number[]>();
+
+    for (let i = 0; i < bodies.length; i++) {
+      const b = bounds[i];
+      const minCol = Math.floor(b.minX / cellSize);
+      const maxCol = Math.floor(b.maxX / cellSize);
+      const minRow = Math.floor(b.minY / cellSize);
+      const maxRow = Math.floor(b.maxY / cellSize);
+
+      for (let col = minCol; col <= maxCol; col++) {
+        for (let row = minRow; row <= maxRow; row++) {
+          const key = `${col},${row}`;
+          const cell = cells.get(key);
+          if (cell) {
+            cell.push(i);
+          } else {
+            cells.set(key, [i]);
+          }
+        }
+      }
+    }
+
+    // Deduplicate pairs that share several cells (index pair encoded as i * n + j)
+    const n = bodies.length;
+    const pairKeys = new Set<number>();
+    for (const cell of cells.values()) {
+      for (let a = 0; a < cell.length; a++) {
+        const i = cell[a];
+        const boundsA = bounds[i];
+        for (let c = a + 1; c < cell.length; c++) {
+          const j = cell[c];
+          const boundsB = bounds[j];
+          if (boundsA.maxX < boundsB.minX || boundsB.maxX < boundsA.minX ||
+              boundsA.maxY < boundsB.minY || boundsB.maxY < boundsA.minY) {
+            continue;
+          }
+          // Bodies are inserted in index order, so i < j
+          pairKeys.add(i * n + j);
+        }
+      }
+    }
+
+    // Sort so pairs resolve in the same order as the brute-force loop
+    const sortedKeys = Array.from(pairKeys).sort((a, b) => a - b);
+    return sortedKeys.map(key => [bodies[Math.floor(key / n)], bodies[key % n]] as [Body, Body]);
+  }
+}
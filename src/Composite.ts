@@ -0,0 +1,301 @@
+/**
+ * Composite - A collection of bodies, constraints and child composites managed as one unit
+ * Based on Matter.js Composite: add it to a world in one call, move it as a whole, remove it in one call
+ */
+
+import type { World } from './World.js';
+import type { Body, BodyConfig } from './Body.js';
+import { Constraint, type ConstraintConfig } from './Constraint.js';
+import { AreaConstraint } from './AreaConstraint.js';
+import type { Joint } from './Joint.js';
+
+/** Body settings that can be applied to every member at once */
+export type CompositeBodyProperties = Partial<Pick<BodyConfig,
+  'mass' | 'restitution' | 'friction' | 'isStatic' | 'draggable' | 'isSensor' | 'sleepThreshold' | 'collisionFilter'>>;
+
+/** Constraint settings that can be applied to every member at once */
+export type CompositeConstraintProperties = Partial<Pick<ConstraintConfig, 'stiffness' | 'damping'>>;
+
+export class Composite {
+  bodies: Body[];
+  constraints: Joint[];
+  composites: Composite[]; // Nested child composites
+  elements: HTMLElement[]; // DOM nodes created for this composite - removed from the page with it
+  label: string | null;
+  parent: Composite | null;
+  world: World | null; // Set while the composite (or an ancestor) is added to a world
+
+  private _frameIds: Set<number> = new Set(); // Pending requestFrame callbacks
+
+  constructor(bodies: Body[] = [], constraints: Joint[] = [], label?: string) {
+    this.bodies = [];
+    this.constraints = [];
+    this.composites = [];
+    this.elements = [];
+    this.label = label ?? null;
+    this.parent = null;
+    this.world = null;
+
+    for (const body of bodies) {
+      this.addBody(body);
+    }
+    for (const constraint of constraints) {
+      this.addConstraint(constraint);
+    }
+  }
+
+  /**
+   * Add a body - registered with the world right away if the composite is in one
+   */
+  addBody(body: Body): void {
+    if (this.bodies.includes(body)) return;
+    this.bodies.push(body);
+    this.world?.registerBody(body);
+  }
+
+  removeBody(body: Body): void {
+    const index = this.bodies.indexOf(body);
+    if (index === -1) return;
+    this.bodies.splice(index, 1);
+    this.world?.unregisterBody(body);
+  }
+
+  addConstraint(constraint: Joint): void {
+    if (this.constraints.includes(constraint)) return;
+    this.constraints.push(constraint);
+    this.world?.registerConstraint(constraint);
+  }
+
+  removeConstraint(constraint: Joint): void {
+    const index = this.constraints.indexOf(constraint);
+    if (index === -1) return;
+    this.constraints.splice(index, 1);
+    this.world?.removeConstraint(constraint);
+  }
+
+  /**
+   * Run a callback on the next animation frame, unless the composite is removed from its world
+   * first (factories wait a frame for new bodies to settle before joining them)
+   */
+  requestFrame(callback: () => void): void {
+    const id = requestAnimationFrame(() => {
+      this._frameIds.delete(id);
+      callback();
+    });
+    this._frameIds.add(id);
+  }
+
+  /**
+   * Cancel requestFrame callbacks that haven't run yet
+   */
+  cancelFrames(): void {
+    for (const id of this._frameIds) {
+      cancelAnimationFrame(id);
+    }
+    this._frameIds.clear();
+  }
+
+  /**
+   * Nest a composite inside this one (it is detached from any previous parent)
+   */
+  addComposite(composite: Composite): void {
+    if (composite === this || composite.allComposites().includes(this)) {
+      throw new Error('Composite cannot contain itself');
+    }
+    if (this.composites.includes(composite)) return;
+
+    composite.parent?.removeComposite(composite);
+    this.composites.push(composite);
+    composite.parent = this;
+    if (this.world) {
+      this.world.add(composite);
+    }
+  }
+
+  removeComposite(composite: Composite): void {
+    const index = this.composites.indexOf(composite);
+    if (index === -1) return;
+    this.composites.splice(index, 1);
+    composite.parent = null;
+    if (this.world) {
+      this.world.remove(composite);
+    }
+  }
+
+  /**
+   * Every body in this composite and its children (like Matter.js Composite.allBodies)
+   */
+  allBodies(): Body[] {
+    const bodies = this.bodies.slice();
+    for (const composite of this.composites) {
+      bodies.push(...composite.allBodies());
+    }
+    return bodies;
+  }
+
+  allConstraints(): Joint[] {
+    const constraints = this.constraints.slice();
+    for (const composite of this.composites) {
+      constraints.push(...composite.allConstraints());
+    }
+    return constraints;
+  }
+
+  allComposites(): Composite[] {
+    const composites = this.composites.slice();
+    for (const composite of this.composites) {
+      composites.push(...composite.allComposites());
+    }
+    return composites;
+  }
+
+  allElements(): HTMLElement[] {
+    const elements = this.elements.slice();
+    for (const composite of this.composites) {
+      elements.push(...composite.allElements());
+    }
+    return elements;
+  }
+
+  /**
+   * World-space axis-aligned bounds around every body (null when empty)
+   */
+  getBounds(): { minX: number; minY: number; maxX: number; maxY: number } | null {
+    const bodies = this.allBodies();
+    if (bodies.length === 0) return null;
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const body of bodies) {
+      const bodyBounds = body.getBounds();
+      bounds.minX = Math.min(bounds.minX, bodyBounds.minX);
+      bounds.minY = Math.min(bounds.minY, bodyBounds.minY);
+      bounds.maxX = Math.max(bounds.maxX, bodyBounds.maxX);
+      bounds.maxY = Math.max(bounds.maxY, bodyBounds.maxY);
+    }
+    return bounds;
+  }
+
+  /**
+   * Mass-weighted centre of every body (plain average if all masses are zero)
+   */
+  getCentroid(): { x: number; y: number } | null {
+    const bodies = this.allBodies();
+    if (bodies.length === 0) return null;
+
+    let totalMass = 0;
+    let x = 0;
+    let y = 0;
+    for (const body of bodies) {
+      const center = body.getCenter();
+      totalMass += body.mass;
+      x += center.x * body.mass;
+      y += center.y * body.mass;
+    }
+    if (totalMass === 0) {
+      for (const body of bodies) {
+        const center = body.getCenter();
+        x += center.x;
+        y += center.y;
+      }
+      return { x: x / bodies.length, y: y / bodies.length };
+    }
+    return { x: x / totalMass, y: y / totalMass };
+  }
+
+  /**
+   * Move every body, keeping velocities
+   */
+  translate(dx: number, dy: number): void {
+    for (const body of this.allBodies()) {
+      body.translate(dx, dy);
+    }
+  }
+
+  /**
+   * Turn the whole composite about a point (default: its centroid)
+   * Bodies orbit the point and turn by the same angle
+   */
+  rotate(angle: number, point: { x: number; y: number } | null = null): void {
+    const pivot = point ?? this.getCentroid();
+    if (!pivot) return;
+
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    for (const body of this.allBodies()) {
+      const center = body.getCenter();
+      const offsetX = center.x - pivot.x;
+      const offsetY = center.y - pivot.y;
+      body.translate(
+        pivot.x + offsetX * cos - offsetY * sin - center.x,
+        pivot.y + offsetX * sin + offsetY * cos - center.y
+      );
+      body.rotate(angle);
+    }
+  }
+
+  /**
+   * Spread or squeeze the composite about a point (default: its centroid)
+   * Scales body positions, the rest lengths of constraints between members and the
+   * rest areas of area constraints, so the new shape holds; element sizes are left alone.
+   */
+  scale(scaleX: number, scaleY: number = scaleX, point: { x: number; y: number } | null = null): void {
+    const pivot = point ?? this.getCentroid();
+    if (!pivot) return;
+
+    // Rest lengths follow the scaled direction of each constraint, measured before bodies move
+    const members = new Set(this.allBodies());
+    for (const constraint of this.allConstraints()) {
+      if (constraint instanceof AreaConstraint) {
+        constraint.area *= Math.abs(scaleX * scaleY);
+        continue;
+      }
+      if (!(constraint instanceof Constraint)) continue;
+      if (!constraint.bodyA || !members.has(constraint.bodyA) || !members.has(constraint.bodyB)) continue;
+      const worldA = constraint.getWorldPointA();
+      const worldB = constraint.getWorldPointB();
+      const dx = worldB.x - worldA.x;
+      const dy = worldB.y - worldA.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      if (length > 0) {
+        constraint.length *= Math.sqrt((dx * scaleX) ** 2 + (dy * scaleY) ** 2) / length;
+      }
+    }
+
+    for (const body of members) {
+      const center = body.getCenter();
+      body.translate(
+        (center.x - pivot.x) * (scaleX - 1),
+        (center.y - pivot.y) * (scaleY - 1)
+      );
+    }
+  }
+
+  /**
+   * Apply the same settings to every body
+   */
+  setBodies(properties: CompositeBodyProperties): void {
+    for (const body of this.allBodies()) {
+      if (properties.mass !== undefined) body.setMass(properties.mass);
+      if (properties.isStatic !== undefined) body.setStatic(properties.isStatic);
+      if (properties.restitution !== undefined) body.restitution = properties.restitution;
+      if (properties.friction !== undefined) body.friction = properties.friction;
+      if (properties.draggable !== undefined) body.draggable = properties.draggable;
+      if (properties.isSensor !== undefined) body.isSensor = properties.isSensor;
+      if (properties.sleepThreshold !== undefined) body.sleepThreshold = properties.sleepThreshold;
+      if (properties.collisionFilter !== undefined) {
+        body.collisionFilter = { ...body.collisionFilter, ...properties.collisionFilter };
+      }
+    }
+  }
+
+  /**
+   * Apply the same settings to every distance constraint
+   */
+  setConstraints(properties: CompositeConstraintProperties): void {
+    for (const constraint of this.allConstraints()) {
+      if (!(constraint instanceof Constraint)) continue;
+      if (properties.stiffness !== undefined) constraint.stiffness = properties.stiffness;
+      if (properties.damping !== undefined) constraint.damping = properties.damping;
+    }
+  }
+}
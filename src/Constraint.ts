@@ -4,6 +4,7 @@
  */
 
 import type { Body } from './Body.js';
+import type { Joint } from './Joint.js';
 
 export interface ConstraintConfig {
   bodyA: Body | null;  // null = fixed world point
@@ -13,9 +14,12 @@ export interface ConstraintConfig {
   length?: number;      // Target distance (0 = pin joint)
   stiffness?: number;   // 0-1, higher = stiffer (default: 0.7 for pin, 1.0 for distance)
   damping?: number;     // 0-1, energy loss (default: 0)
+  breakThreshold?: number; // Stretch ratio (current / rest length) that breaks the constraint, e.g. 1.5
+  breakForce?: number;     // Correction in px per pass that breaks it (use for pins, whose rest length is ~0)
+  priority?: number;       // Higher is solved earlier in each pass (default: 0)
 }
 
-export class Constraint {
+export class Constraint implements Joint {
   bodyA: Body | null;
   bodyB: Body;
   pointA: { x: number; y: number };
@@ -23,6 +27,10 @@ export class Constraint {
   length: number;
   stiffness: number;
   damping: number;
+  breakThreshold: number | null;
+  breakForce: number | null;
+  priority: number;
+  broken: boolean; // Set once past a break limit - the world removes it at the end of the step
   
   private static readonly _minLength = 0.000001; // Prevent division by zero
   private static readonly _warming = 0.9; // Constraint warming factor
@@ -55,6 +63,25 @@ export class Constraint {
     const wasPinJoint = config.length === 0;
     this.stiffness = config.stiffness ?? (wasPinJoint ? 0.7 : 1.0);
     this.damping = config.damping ?? 0;
+    this.breakThreshold = config.breakThreshold ?? null;
+    this.breakForce = config.breakForce ?? null;
+    this.priority = config.priority ?? 0;
+    this.broken = false;
+  }
+  
+  getBodies(): Body[] {
+    return this.bodyA ? [this.bodyA, this.bodyB] : [this.bodyB];
+  }
+  
+  isBroken(): boolean {
+    return this.broken;
+  }
+  
+  /**
+   * Fixed when pinned to a world point or attached to a static body
+   */
+  isFixed(): boolean {
+    return !this.bodyA || this.bodyA.isStatic || this.bodyB.isStatic;
   }
   
   /**
@@ -65,23 +92,15 @@ export class Constraint {
       // Fixed world point
       return { x: this.pointA.x, y: this.pointA.y };
     }
-    // Local point on bodyA transformed to world space
-    const bodyAPos = this.bodyA.getWorldPosition();
-    return {
-      x: bodyAPos.x + this.pointA.x,
-      y: bodyAPos.y + this.pointA.y
-    };
+    // Local point on bodyA transformed to world space (rotates with the body)
+    return this.bodyA.getWorldPoint(this.pointA);
   }
   
   /**
    * Get world-space position of constraint point B
    */
   getWorldPointB(): { x: number; y: number } {
-    const bodyBPos = this.bodyB.getWorldPosition();
-    return {
-      x: bodyBPos.x + this.pointB.x,
-      y: bodyBPos.y + this.pointB.y
-    };
+    return this.bodyB.getWorldPoint(this.pointB);
   }
   
   /**
@@ -90,6 +109,8 @@ export class Constraint {
    * Matches Matter.js implementation exactly
    */
   solve(timeScale: number): void {
+    if (this.broken) return;
+    
     // Skip if both bodies are disabled
     if (this.bodyA && !this.bodyA.enabled && (!this.bodyB.enabled)) {
       return;
@@ -98,11 +119,11 @@ export class Constraint {
       return;
     }
     
-    // Check if bodies are being dragged
-    const aDragged = this.bodyA?.isDragged ?? false;
-    const bDragged = this.bodyB.isDragged;
+    // Dragged and sleeping bodies are held in place (World wakes sleepers under tension first)
+    const aDragged = (this.bodyA?.isDragged || this.bodyA?.isSleeping) ?? false;
+    const bDragged = this.bodyB.isDragged || this.bodyB.isSleeping;
     
-    // Skip if both are dragged
+    // Skip if both are held
     if (aDragged && bDragged) {
       return;
     }
@@ -121,6 +142,12 @@ export class Constraint {
       currentLength = Constraint._minLength;
     }
     
+    // Tear when stretched past the limit - no correction, the world removes it after solving
+    if (this.breakThreshold !== null && currentLength > this.length * this.breakThreshold) {
+      this.broken = true;
+      return;
+    }
+    
     // Calculate constraint violation (Matter.js exact formula)
     const difference = (currentLength - this.length) / currentLength;
     
@@ -136,6 +163,12 @@ export class Constraint {
       ? this.stiffness * timeScale
       : this.stiffness * timeScale * timeScale;
     
+    // Tear when the correction this pass would ask for (before clamping) is too large
+    if (this.breakForce !== null && Math.abs(currentLength - this.length) * stiffness > this.breakForce) {
+      this.broken = true;
+      return;
+    }
+    
     // Calculate force vector (Matter.js: force = delta * (difference * stiffness))
     const forceX = dx * (clampedDifference * stiffness);
     const forceY = dy * (clampedDifference * stiffness);
@@ -192,11 +225,34 @@ export class Constraint {
     const shareA = aInvMass / massTotal;
     const shareB = bInvMass / massTotal;
     
+    // Off-centre attachment points: split the correction between translation and rotation
+    // using the generalized inverse mass, w = 1/m + (r × n)²/I for each body, so the attachment
+    // point moves by exactly the correction (centre attachments reduce to the shares above)
+    const aInvInertia = (aDragged || !this.bodyA) ? 0 : this.bodyA.inverseInertia;
+    const bInvInertia = bDragged ? 0 : this.bodyB.inverseInertia;
+    const centerA = this.bodyA ? this.bodyA.getCenter() : worldA;
+    const centerB = this.bodyB.getCenter();
+    const offsetAX = worldA.x - centerA.x;
+    const offsetAY = worldA.y - centerA.y;
+    const offsetBX = worldB.x - centerB.x;
+    const offsetBY = worldB.y - centerB.y;
+    const normalX = dx / currentLength;
+    const normalY = dy / currentLength;
+    const offsetACrossN = offsetAX * normalY - offsetAY * normalX;
+    const offsetBCrossN = offsetBX * normalY - offsetBY * normalX;
+    const resistanceTotal = massTotal +
+      offsetACrossN * offsetACrossN * aInvInertia +
+      offsetBCrossN * offsetBCrossN * bInvInertia;
+    const correctionShareA = aInvMass / resistanceTotal;
+    const correctionShareB = bInvMass / resistanceTotal;
+    const torqueA = (offsetAX * forceY - offsetAY * forceX) / resistanceTotal * aInvInertia;
+    const torqueB = (offsetBX * forceY - offsetBY * forceX) / resistanceTotal * bInvInertia;
+    
     // Apply to bodyA (if exists, not static, and not dragged)
     // Matter.js: bodyA.position -= force * share, bodyA.positionPrev -= damping * share
     if (this.bodyA && !this.bodyA.isStatic && !aDragged) {
-      const correctionX = forceX * shareA;
-      const correctionY = forceY * shareA;
+      const correctionX = forceX * correctionShareA;
+      const correctionY = forceY * correctionShareA;
       
       // Track impulse for constraint warming (Matter.js style)
       this.bodyA.constraintImpulseX -= correctionX;
@@ -207,6 +263,9 @@ export class Constraint {
       this.bodyA.x -= correctionX;
       this.bodyA.y -= correctionY;
       
+      // Rotation about the centre: bodyA.angle -= cross(offsetA, force) / resistanceTotal * inverseInertia
+      this.bodyA.angle -= torqueA;
+      
       // Matter.js exact: bodyA.positionPrev -= damping * share
       // Damping reduces velocity by modifying previous position
       if (this.damping > 0) {
@@ -218,8 +277,8 @@ export class Constraint {
     // Apply to bodyB (if not static and not dragged)
     // Matter.js: bodyB.position += force * share, bodyB.positionPrev += damping * share
     if (!this.bodyB.isStatic && !bDragged) {
-      const correctionX = forceX * shareB;
-      const correctionY = forceY * shareB;
+      const correctionX = forceX * correctionShareB;
+      const correctionY = forceY * correctionShareB;
       
       // Track impulse for constraint warming (Matter.js style)
       this.bodyB.constraintImpulseX += correctionX;
@@ -230,6 +289,9 @@ export class Constraint {
       this.bodyB.x += correctionX;
       this.bodyB.y += correctionY;
       
+      // Rotation about the centre: bodyB.angle += cross(offsetB, force) / resistanceTotal * inverseInertia
+      this.bodyB.angle += torqueB;
+      
       // Matter.js exact: bodyB.positionPrev += damping * share
       // Damping reduces velocity by modifying previous position
       if (this.damping > 0) {
@@ -0,0 +1,274 @@
+/**
+ * ContactSolver - Sequential impulse contact solver with Coulomb friction (like Box2D and Matter.js Resolver)
+ * Velocities are Verlet displacements (x - prevX, in px per step). Each step:
+ * - add: one contact per touching pair, with its effective masses and restitution target
+ * - warmStart: last step's impulses are applied again for pairs still touching, so stacks
+ *   start each step close to the answer instead of rebuilding it from nothing
+ * - velocity passes: normal impulses accumulate but never pull; friction impulses stay inside the
+ *   static friction cone while the contact sticks and drop to kinetic friction once it slides
+ * - position passes: overlapping shapes are pushed apart by moving position and previous position
+ *   together, so removing overlap never adds velocity
+ * The same rules apply whichever way a contact faces - a pile on its side behaves like one upright.
+ */
+
+import type { Body } from './Body.js';
+import { getContact, type Contact } from './collision.js';
+
+export interface ContactMaterial {
+  restitution: number;     // 0-1 bounce
+  staticFriction: number;  // Coulomb coefficient while sticking
+  kineticFriction: number; // Coulomb coefficient while sliding
+}
+
+export interface SolverContact {
+  key: string;
+  bodyA: Body;
+  bodyB: Body;
+  contact: Contact;
+  material: ContactMaterial;
+  normalImpulse: number;  // Accumulated this step (mass × px per step)
+  tangentImpulse: number;
+  restitutionVelocity: number; // Separating speed the bounce aims for (px per step)
+  normalMass: number;
+  tangentMass: number;
+  rAX: number; // Contact point relative to each shape centre
+  rAY: number;
+  rBX: number;
+  rBY: number;
+}
+
+interface CachedImpulse {
+  normal: { x: number; y: number };
+  normalImpulse: number;
+  tangentImpulse: number;
+}
+
+export class ContactSolver {
+  contacts: SolverContact[] = [];
+
+  private _cache: Map<string, CachedImpulse> = new Map(); // Last step's impulses by pair key
+  private _cacheDelta: number = 0; // Step length the cached impulses were found at
+
+  private static readonly _slop = 0.25;              // px of overlap left alone so resting contacts persist (Box2D linearSlop)
+  private static readonly _positionCorrection = 0.8; // Fraction of the remaining overlap removed per position pass
+  private static readonly _restingThreshold = 1;     // px per 1/60s - slower impacts don't bounce (Matter.js Resolver._restingThresh)
+  private static readonly _warmStartAngle = 0.95;    // Cosine of the largest normal change that still warm-starts
+  private static readonly _baseDelta = 1 / 60;
+
+  /**
+   * Add a touching pair for this step (normal points from A to B)
+   */
+  add(key: string, bodyA: Body, bodyB: Body, contact: Contact, material: ContactMaterial, dt: number): SolverContact {
+    const centerA = bodyA.getCenter();
+    const centerB = bodyB.getCenter();
+    const rAX = contact.point.x - centerA.x;
+    const rAY = contact.point.y - centerA.y;
+    const rBX = contact.point.x - centerB.x;
+    const rBY = contact.point.y - centerB.y;
+    const nx = contact.normal.x;
+    const ny = contact.normal.y;
+
+    const normalMass = effectiveMass(bodyA, bodyB, rAX, rAY, rBX, rBY, nx, ny);
+    const tangentMass = effectiveMass(bodyA, bodyB, rAX, rAY, rBX, rBY, -ny, nx);
+
+    const solverContact: SolverContact = {
+      key,
+      bodyA,
+      bodyB,
+      contact,
+      material,
+      normalImpulse: 0,
+      tangentImpulse: 0,
+      restitutionVelocity: 0,
+      normalMass,
+      tangentMass,
+      rAX,
+      rAY,
+      rBX,
+      rBY
+    };
+
+    // Bounce off the approach speed from before any impulse this step
+    const approach = relativeVelocity(solverContact, nx, ny);
+    const restingThreshold = ContactSolver._restingThreshold * dt / ContactSolver._baseDelta;
+    if (approach < -restingThreshold) {
+      solverContact.restitutionVelocity = -approach * material.restitution;
+    }
+
+    this.contacts.push(solverContact);
+    return solverContact;
+  }
+
+  /**
+   * Apply last step's impulses again to pairs that still face the same way
+   * Runs once every contact is added, so no approach speed is measured after warm starting
+   */
+  warmStart(dt: number): void {
+    // Resting impulses cancel gravity, which adds g·dt² px per step - rescale for a changed step length
+    const ratio = this._cacheDelta > 0 ? dt / this._cacheDelta : 1;
+    for (const c of this.contacts) {
+      const cached = this._cache.get(c.key);
+      const nx = c.contact.normal.x;
+      const ny = c.contact.normal.y;
+      if (!cached || cached.normal.x * nx + cached.normal.y * ny < ContactSolver._warmStartAngle) continue;
+
+      c.normalImpulse = cached.normalImpulse * ratio * ratio;
+      c.tangentImpulse = cached.tangentImpulse * ratio * ratio;
+      applyImpulse(c, nx * c.normalImpulse - ny * c.tangentImpulse, ny * c.normalImpulse + nx * c.tangentImpulse);
+    }
+  }
+
+  /**
+   * One velocity pass over every contact
+   */
+  solveVelocity(): void {
+    for (const c of this.contacts) {
+      const nx = c.contact.normal.x;
+      const ny = c.contact.normal.y;
+
+      // Normal: stop the approach (or bounce), never pull the shapes together
+      if (c.normalMass > 0) {
+        const vn = relativeVelocity(c, nx, ny);
+        const previous = c.normalImpulse;
+        c.normalImpulse = Math.max(previous - c.normalMass * (vn - c.restitutionVelocity), 0);
+        const impulse = c.normalImpulse - previous;
+        applyImpulse(c, nx * impulse, ny * impulse);
+      }
+
+      // Friction: Coulomb cone, static while sticking, kinetic once sliding
+      if (c.tangentMass > 0) {
+        const tx = -ny;
+        const ty = nx;
+        const vt = relativeVelocity(c, tx, ty);
+        const previous = c.tangentImpulse;
+        let total = previous - c.tangentMass * vt;
+        if (Math.abs(total) > c.material.staticFriction * c.normalImpulse) {
+          total = Math.sign(total) * c.material.kineticFriction * c.normalImpulse;
+        }
+        c.tangentImpulse = total;
+        const impulse = total - previous;
+        applyImpulse(c, tx * impulse, ty * impulse);
+      }
+    }
+  }
+
+  /**
+   * One position pass - contacts are measured again from the bodies' current positions
+   */
+  solvePosition(): void {
+    for (const c of this.contacts) {
+      const contact = getContact(c.bodyA, c.bodyB);
+      if (!contact || contact.depth <= ContactSolver._slop) continue;
+
+      const a = c.bodyA;
+      const b = c.bodyB;
+      const centerA = a.getCenter();
+      const centerB = b.getCenter();
+      const rAX = contact.point.x - centerA.x;
+      const rAY = contact.point.y - centerA.y;
+      const rBX = contact.point.x - centerB.x;
+      const rBY = contact.point.y - centerB.y;
+      const nx = contact.normal.x;
+      const ny = contact.normal.y;
+      const mass = effectiveMass(a, b, rAX, rAY, rBX, rBY, nx, ny);
+      if (mass === 0) continue;
+
+      const correction = (contact.depth - ContactSolver._slop) * ContactSolver._positionCorrection * mass;
+      const invMassA = inverseMass(a);
+      const invMassB = inverseMass(b);
+      shift(a, -nx * correction * invMassA, -ny * correction * invMassA,
+        -(rAX * ny - rAY * nx) * correction * inverseInertia(a));
+      shift(b, nx * correction * invMassB, ny * correction * invMassB,
+        (rBX * ny - rBY * nx) * correction * inverseInertia(b));
+    }
+  }
+
+  /**
+   * Keep this step's impulses for warm starting and clear the contact list
+   */
+  finish(dt: number): void {
+    this._cache.clear();
+    for (const c of this.contacts) {
+      this._cache.set(c.key, {
+        normal: c.contact.normal,
+        normalImpulse: c.normalImpulse,
+        tangentImpulse: c.tangentImpulse
+      });
+    }
+    this._cacheDelta = dt;
+    this.contacts = [];
+  }
+}
+
+/**
+ * Held bodies (static, dragged or asleep) take impulses like infinite mass
+ */
+function isHeld(body: Body): boolean {
+  return body.isStatic || body.isDragged || body.isSleeping || !body.enabled;
+}
+
+function inverseMass(body: Body): number {
+  return isHeld(body) ? 0 : body.inverseMass;
+}
+
+function inverseInertia(body: Body): number {
+  return isHeld(body) ? 0 : body.inverseInertia;
+}
+
+/**
+ * 1 / (1/mA + 1/mB + (rA × d)²/IA + (rB × d)²/IB) along direction d, or 0 when nothing can move
+ */
+function effectiveMass(a: Body, b: Body, rAX: number, rAY: number, rBX: number, rBY: number, dx: number, dy: number): number {
+  const rACrossD = rAX * dy - rAY * dx;
+  const rBCrossD = rBX * dy - rBY * dx;
+  const inverse = inverseMass(a) + inverseMass(b) +
+    rACrossD * rACrossD * inverseInertia(a) + rBCrossD * rBCrossD * inverseInertia(b);
+  return inverse > 0 ? 1 / inverse : 0;
+}
+
+/**
+ * Velocity of B's contact point relative to A's along direction d (negative = approaching)
+ */
+function relativeVelocity(c: SolverContact, dx: number, dy: number): number {
+  const a = c.bodyA;
+  const b = c.bodyB;
+  const angularA = a.angle - a.prevAngle;
+  const angularB = b.angle - b.prevAngle;
+  const vx = (b.x - b.prevX - angularB * c.rBY) - (a.x - a.prevX - angularA * c.rAY);
+  const vy = (b.y - b.prevY + angularB * c.rBX) - (a.y - a.prevY + angularA * c.rAX);
+  return vx * dx + vy * dy;
+}
+
+/**
+ * Apply an impulse to B at the contact point, and its opposite to A
+ * Verlet velocity is x - prevX, and this step has already moved x by the old velocity - so the
+ * velocity change moves x too, as if the body had travelled at the new velocity all step.
+ * (Changing prevX instead would leave this step's motion in place: resting bodies would creep.)
+ */
+function applyImpulse(c: SolverContact, impulseX: number, impulseY: number): void {
+  const a = c.bodyA;
+  const b = c.bodyB;
+  if (!isHeld(a)) {
+    a.x -= impulseX * a.inverseMass;
+    a.y -= impulseY * a.inverseMass;
+    a.angle -= (c.rAX * impulseY - c.rAY * impulseX) * a.inverseInertia;
+  }
+  if (!isHeld(b)) {
+    b.x += impulseX * b.inverseMass;
+    b.y += impulseY * b.inverseMass;
+    b.angle += (c.rBX * impulseY - c.rBY * impulseX) * b.inverseInertia;
+  }
+}
+
+/**
+ * Move a body without changing its velocity
+ */
+function shift(body: Body, dx: number, dy: number, angle: number): void {
+  if (isHeld(body)) return;
+  body.x += dx;
+  body.y += dy;
+  body.prevX += dx;
+  body.prevY += dy;
+  body.angle += angle;
+  body.prevAngle += angle;
+}
@@ -0,0 +1,239 @@
+/**
+ * DragController - Pointer dragging for bodies in a World
+ * Handles mouse, pen and multi-touch through pointer events on world.container
+ */
+
+import type { World } from './World.js';
+import type { Body } from './Body.js';
+import { Constraint } from './Constraint.js';
+import type { BodyDragEvent } from './Events.js';
+
+export type { BodyDragEvent };
+
+export interface DragControllerOptions {
+  mode?: 'follow' | 'spring'; // Default: 'follow' (kinematic, body.isDragged = true)
+  stiffness?: number;         // Spring mode constraint stiffness (default: 0.2)
+  damping?: number;           // Spring mode constraint damping (default: 0.1)
+  onDragStart?: (event: BodyDragEvent) => void;
+  onDragEnd?: (event: BodyDragEvent) => void;
+}
+
+interface ActiveDrag {
+  body: Body;
+  pointerId: number;
+  grabX: number; // Grab point relative to body world position (follow mode)
+  grabY: number;
+  constraint: Constraint | null; // Pointer spring (spring mode)
+  lastX: number;
+  lastY: number;
+  lastTime: number;
+  velocityX: number; // Smoothed pointer velocity in px/ms
+  velocityY: number;
+}
+
+export class DragController {
+  world: World;
+  mode: 'follow' | 'spring';
+  stiffness: number;
+  damping: number;
+  onDragStart: ((event: BodyDragEvent) => void) | null;
+  onDragEnd: ((event: BodyDragEvent) => void) | null;
+
+  private _drags: Map<number, ActiveDrag> = new Map();
+  private _previousTouchAction: string;
+
+  private static readonly _velocitySmoothing = 0.6; // Weight of the newest pointer sample
+  private static readonly _releaseTimeout = 100;    // ms without movement before release counts as still
+
+  constructor(world: World, options: DragControllerOptions = {}) {
+    this.world = world;
+    this.mode = options.mode ?? 'follow';
+    this.stiffness = options.stiffness ?? 0.2;
+    this.damping = options.damping ?? 0.1;
+    this.onDragStart = options.onDragStart ?? null;
+    this.onDragEnd = options.onDragEnd ?? null;
+
+    // Stop touch drags from scrolling the page
+    this._previousTouchAction = world.container.style.touchAction ?? '';
+    world.container.style.touchAction = 'none';
+
+    world.container.addEventListener('pointerdown', this._onPointerDown);
+    const doc = world.container.ownerDocument;
+    doc.addEventListener('pointermove', this._onPointerMove);
+    doc.addEventListener('pointerup', this._onPointerUp);
+    doc.addEventListener('pointercancel', this._onPointerUp);
+  }
+
+  /**
+   * Bodies currently held by a pointer
+   */
+  getDraggedBodies(): Body[] {
+    return Array.from(this._drags.values()).map(drag => drag.body);
+  }
+
+  /**
+   * Find the draggable body under a world-space point
+   * Prefers the body whose element (or a descendant) was hit, then the topmost shape containing the point
+   */
+  getBodyAt(x: number, y: number, target: EventTarget | null = null): Body | null {
+    const isAvailable = (body: Body) =>
+      body.draggable && body.enabled && !body.isStatic && !this._isHeld(body);
+
+    if (target instanceof Node) {
+      for (let node: Node | null = target; node && node !== this.world.container; node = node.parentNode) {
+        const body = this.world.bodies.find(b => b.element === node);
+        if (body) return isAvailable(body) ? body : null;
+      }
+    }
+
+    // Later bodies render on top, so search from the end
+    for (let i = this.world.bodies.length - 1; i >= 0; i--) {
+      const body = this.world.bodies[i];
+      if (isAvailable(body) && body.containsPoint(x, y)) {
+        return body;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Release every held body and remove all listeners
+   */
+  destroy(): void {
+    for (const pointerId of Array.from(this._drags.keys())) {
+      this._endDrag(pointerId, performance.now());
+    }
+
+    this.world.container.removeEventListener('pointerdown', this._onPointerDown);
+    const doc = this.world.container.ownerDocument;
+    doc.removeEventListener('pointermove', this._onPointerMove);
+    doc.removeEventListener('pointerup', this._onPointerUp);
+    doc.removeEventListener('pointercancel', this._onPointerUp);
+    this.world.container.style.touchAction = this._previousTouchAction;
+  }
+
+  private _isHeld(body: Body): boolean {
+    for (const drag of this._drags.values()) {
+      if (drag.body === body) return true;
+    }
+    return false;
+  }
+
+  private _onPointerDown = (event: PointerEvent): void => {
+    if (event.button !== undefined && event.button > 0) return; // Primary button / touch / pen only
+
+    const pointerId = event.pointerId ?? 0;
+    if (this._drags.has(pointerId)) return;
+
+    const point = this.world.clientToWorld(event.clientX, event.clientY);
+    const body = this.getBodyAt(point.x, point.y, event.target);
+    if (!body) return;
+
+    event.preventDefault(); // Avoid text selection / native image drag
+    body.setSleeping(false);
+
+    const pos = body.getWorldPosition();
+    const drag: ActiveDrag = {
+      body,
+      pointerId,
+      grabX: point.x - pos.x,
+      grabY: point.y - pos.y,
+      constraint: null,
+      lastX: point.x,
+      lastY: point.y,
+      lastTime: event.timeStamp || performance.now(),
+      velocityX: 0,
+      velocityY: 0
+    };
+
+    if (this.mode === 'spring') {
+      // Pull the grab point towards the pointer with a soft constraint
+      drag.constraint = new Constraint({
+        bodyA: null,
+        bodyB: body,
+        pointA: { x: point.x, y: point.y },
+        pointB: body.getLocalPoint(point),
+        length: 0.000001,
+        stiffness: this.stiffness,
+        damping: this.damping
+      });
+      this.world.registerConstraint(drag.constraint);
+    } else {
+      // Kinematic follow: the solver treats the body as infinitely heavy until release
+      body.isDragged = true;
+      body.prevX = body.x;
+      body.prevY = body.y;
+    }
+
+    this._drags.set(pointerId, drag);
+    this._emit('dragStart', { body, pointerId, x: point.x, y: point.y, velocityX: 0, velocityY: 0 });
+  };
+
+  private _onPointerMove = (event: PointerEvent): void => {
+    const drag = this._drags.get(event.pointerId ?? 0);
+    if (!drag) return;
+
+    const point = this.world.clientToWorld(event.clientX, event.clientY);
+    const time = event.timeStamp || performance.now();
+    const elapsed = time - drag.lastTime;
+
+    // Smoothed pointer velocity for the throw on release
+    if (elapsed > 0) {
+      const smoothing = DragController._velocitySmoothing;
+      drag.velocityX = smoothing * ((point.x - drag.lastX) / elapsed) + (1 - smoothing) * drag.velocityX;
+      drag.velocityY = smoothing * ((point.y - drag.lastY) / elapsed) + (1 - smoothing) * drag.velocityY;
+    }
+    drag.lastX = point.x;
+    drag.lastY = point.y;
+    drag.lastTime = time;
+
+    if (drag.constraint) {
+      drag.constraint.pointA = { x: point.x, y: point.y };
+      return;
+    }
+
+    // Move relative to the body's current origin (render() may re-base it)
+    const body = drag.body;
+    body.x = point.x - drag.grabX - body.originX;
+    body.y = point.y - drag.grabY - body.originY;
+    body.prevX = body.x;
+    body.prevY = body.y;
+  };
+
+  private _onPointerUp = (event: PointerEvent): void => {
+    this._endDrag(event.pointerId ?? 0, event.timeStamp || performance.now());
+  };
+
+  private _endDrag(pointerId: number, time: number): void {
+    const drag = this._drags.get(pointerId);
+    if (!drag) return;
+    this._drags.delete(pointerId);
+
+    // Pointer velocity (px/ms) to Verlet velocity (px per step); a pointer held still throws nothing
+    const stepMs = this.world.timeStep * 1000;
+    const isStill = time - drag.lastTime > DragController._releaseTimeout;
+    const velocityX = isStill ? 0 : drag.velocityX * stepMs;
+    const velocityY = isStill ? 0 : drag.velocityY * stepMs;
+
+    const body = drag.body;
+    if (drag.constraint) {
+      this.world.removeConstraint(drag.constraint);
+    } else {
+      body.isDragged = false;
+      body.prevX = body.x - velocityX;
+      body.prevY = body.y - velocityY;
+    }
+
+    this._emit('dragEnd', { body, pointerId, x: drag.lastX, y: drag.lastY, velocityX, velocityY });
+  }
+
+  /**
+   * Report a drag to the option callback, the body and the world
+   */
+  private _emit(name: 'dragStart' | 'dragEnd', event: BodyDragEvent): void {
+    const callback = name === 'dragStart' ? this.onDragStart : this.onDragEnd;
+    callback?.(event);
+    event.body.events.emit(name, event);
+    this.world.events.emit(name, event);
+  }
+}
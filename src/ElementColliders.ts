@@ -0,0 +1,230 @@
+/**
+ * ElementColliders - Static box obstacles that follow page elements
+ * Each element's client rects become box obstacles (a wrapped inline element has one rect per
+ * line), so bodies can land on the real headings, images and footers of a page. The elements are
+ * only measured, never moved or restyled.
+ * Layout changes are tracked with a ResizeObserver (element and container sizes), a
+ * MutationObserver (anything in the document that may reflow the page) and scroll/resize
+ * listeners; changes are batched into one update per animation frame.
+ */
+
+import type { World } from './World.js';
+import { Obstacle } from './Obstacle.js';
+
+export interface ElementCollidersOptions {
+  restitution?: number | null; // Passed to each obstacle (default: null = body's)
+  friction?: number | null;    // Passed to each obstacle (default: null = world's kineticFriction)
+  observe?: boolean;           // Follow layout changes (default: true)
+}
+
+type Rect = { left: number; top: number; right: number; bottom: number };
+
+const OVERLAY_ATTRIBUTE = 'data-physics-overlay';
+
+/**
+ * Mark an element the library redraws every frame (mesh layers, blob skins)
+ * Changes inside it never move the page's layout, so element colliders ignore them.
+ */
+export function markOverlay(element: Element): void {
+  element.setAttribute(OVERLAY_ATTRIBUTE, '');
+}
+
+export class ElementColliders {
+  world: World;
+  elements: Element[];
+  obstacles: Obstacle[] = [];
+  restitution: number | null;
+  friction: number | null;
+
+  private _selector: string | null;
+  private _rects: Rect[] = []; // World-space rects the obstacles were built from
+  private _resizeObserver: ResizeObserver | null = null;
+  private _mutationObserver: MutationObserver | null = null;
+  private _frameId: number | null = null;
+  private _destroyed: boolean = false;
+
+  private static readonly _tolerance = 0.5; // px a rect may move without rebuilding its obstacle
+
+  constructor(world: World, target: string | Element | Iterable<Element>, options: ElementCollidersOptions = {}) {
+    this.world = world;
+    this.restitution = options.restitution ?? null;
+    this.friction = options.friction ?? null;
+    this._selector = typeof target === 'string' ? target : null;
+    this.elements = typeof target === 'string'
+      ? []
+      : target instanceof Element ? [target] : Array.from(target);
+
+    if (options.observe ?? true) {
+      this._observe();
+    }
+    this.update();
+  }
+
+  /**
+   * Measure the elements again and rebuild obstacles whose rects moved
+   * Selector targets are queried again, so matching elements added later are picked up.
+   */
+  update(): void {
+    if (this._destroyed) return;
+
+    if (this._selector !== null) {
+      const matches = Array.from(this.world.container.ownerDocument.querySelectorAll(this._selector));
+      this._setElements(matches);
+    }
+
+    const rects = this._measure();
+    if (this._sameRects(rects)) return;
+
+    const previous = this._rects;
+    for (const obstacle of this.obstacles) {
+      this.world.removeObstacle(obstacle);
+    }
+    this.obstacles = rects.map(rect => new Obstacle({
+      vertices: [
+        { x: rect.left, y: rect.top },
+        { x: rect.right, y: rect.top },
+        { x: rect.right, y: rect.bottom },
+        { x: rect.left, y: rect.bottom }
+      ],
+      restitution: this.restitution,
+      friction: this.friction
+    }));
+    for (const obstacle of this.obstacles) {
+      this.world.registerObstacle(obstacle);
+    }
+    this._rects = rects;
+
+    // Bodies asleep on (or under) a rect that moved would otherwise hang in the air
+    this._wakeBodiesNear([...previous, ...rects]);
+  }
+
+  /**
+   * Remove the obstacles and stop following the layout
+   */
+  destroy(): void {
+    if (this._destroyed) return;
+    this._destroyed = true;
+
+    this._resizeObserver?.disconnect();
+    this._mutationObserver?.disconnect();
+    const view = this.world.container.ownerDocument.defaultView;
+    view?.removeEventListener('scroll', this._scheduleUpdate, true);
+    view?.removeEventListener('resize', this._scheduleUpdate);
+    if (this._frameId !== null) {
+      cancelAnimationFrame(this._frameId);
+      this._frameId = null;
+    }
+
+    for (const obstacle of this.obstacles) {
+      this.world.removeObstacle(obstacle);
+    }
+    this.obstacles = [];
+    this._rects = [];
+    this.world.removeStaticFromElements(this);
+  }
+
+  private _observe(): void {
+    const doc = this.world.container.ownerDocument;
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(this._scheduleUpdate);
+      this._resizeObserver.observe(this.world.container);
+      for (const element of this.elements) {
+        this._resizeObserver.observe(element);
+      }
+    }
+
+    if (typeof MutationObserver !== 'undefined' && doc.body) {
+      this._mutationObserver = new MutationObserver(records => {
+        // Bodies and overlays rewrite their own styles every frame - that never moves the page's layout
+        if (this._frameId !== null || records.every(record => this._isOwnMutation(record))) return;
+        this._scheduleUpdate();
+      });
+      this._mutationObserver.observe(doc.body, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        attributeFilter: ['class', 'style', 'hidden'], // Only attributes that can change layout
+        characterData: true
+      });
+    }
+
+    // Capture catches scrolling inside any element, not just the page
+    const view = doc.defaultView;
+    view?.addEventListener('scroll', this._scheduleUpdate, true);
+    view?.addEventListener('resize', this._scheduleUpdate);
+  }
+
+  private _scheduleUpdate = (): void => {
+    if (this._frameId !== null || this._destroyed) return;
+    this._frameId = requestAnimationFrame(() => {
+      this._frameId = null;
+      this.update();
+    });
+  };
+
+  private _setElements(elements: Element[]): void {
+    if (this._resizeObserver) {
+      for (const element of this.elements) {
+        if (!elements.includes(element)) this._resizeObserver.unobserve(element);
+      }
+      for (const element of elements) {
+        if (!this.elements.includes(element)) this._resizeObserver.observe(element);
+      }
+    }
+    this.elements = elements;
+  }
+
+  /**
+   * World-space client rects of every element, skipping empty ones (e.g. display: none),
+   * bodies' own elements and anything containing the world (it would box every body in)
+   */
+  private _measure(): Rect[] {
+    const container = this.world.container;
+    const origin = this.world.worldToClient(0, 0); // Same scroll-aware space as body positions
+    const rects: Rect[] = [];
+    for (const element of this.elements) {
+      if (element.contains(container) || this.world.isBodyElement(element)) continue;
+      for (const rect of Array.from(element.getClientRects())) {
+        if (rect.width <= 0 || rect.height <= 0) continue;
+        rects.push({
+          left: rect.left - origin.x,
+          top: rect.top - origin.y,
+          right: rect.right - origin.x,
+          bottom: rect.bottom - origin.y
+        });
+      }
+    }
+    return rects;
+  }
+
+  private _sameRects(rects: Rect[]): boolean {
+    if (rects.length !== this._rects.length) return false;
+    const tolerance = ElementColliders._tolerance;
+    return rects.every((rect, i) => {
+      const previous = this._rects[i];
+      return Math.abs(rect.left - previous.left) <= tolerance &&
+        Math.abs(rect.top - previous.top) <= tolerance &&
+        Math.abs(rect.right - previous.right) <= tolerance &&
+        Math.abs(rect.bottom - previous.bottom) <= tolerance;
+    });
+  }
+
+  private _isOwnMutation(record: MutationRecord): boolean {
+    const target = record.target;
+    if (this.world.isBodyElement(target)) return true;
+    const element = target instanceof Element ? target : target.parentElement;
+    return element?.closest(`[${OVERLAY_ATTRIBUTE}]`) != null;
+  }
+
+  private _wakeBodiesNear(rects: Rect[]): void {
+    for (const body of this.world.bodies) {
+      if (!body.isSleeping) continue;
+      const bounds = body.getBounds();
+      const near = rects.some(rect =>
+        bounds.maxX >= rect.left - 1 && bounds.minX <= rect.right + 1 &&
+        bounds.maxY >= rect.top - 1 && bounds.minY <= rect.bottom + 1);
+      if (near) body.setSleeping(false);
+    }
+  }
+}
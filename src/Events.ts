@@ -0,0 +1,155 @@
+/**
+ * Events - Typed event emitter shared by World and Body
+ * Event payloads are described by a map of event name to payload type (like Matter.Events)
+ */
+
+import type { Body } from './Body.js';
+import type { Joint } from './Joint.js';
+import type { WorldBounds } from './bounds.js';
+import type { World } from './World.js';
+
+export type EventHandler<T> = (event: T) => void;
+
+export class EventEmitter<Events extends object> {
+  private _handlers: { [K in keyof Events]?: Array<EventHandler<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event
+   * Returns a function that removes the handler again
+   */
+  on<K extends keyof Events>(name: K, handler: EventHandler<Events[K]>): () => void {
+    const handlers = this._handlers[name] ?? (this._handlers[name] = []);
+    handlers.push(handler);
+    return () => this.off(name, handler);
+  }
+
+  off<K extends keyof Events>(name: K, handler: EventHandler<Events[K]>): void {
+    const handlers = this._handlers[name];
+    if (!handlers) return;
+    const index = handlers.indexOf(handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const handlers = this._handlers[name];
+    if (!handlers || handlers.length === 0) return;
+    // Copy so handlers can unsubscribe while the event is dispatched
+    for (const handler of handlers.slice()) {
+      handler(event);
+    }
+  }
+
+  hasListeners(name: keyof Events): boolean {
+    return (this._handlers[name]?.length ?? 0) > 0;
+  }
+
+  removeAllListeners(): void {
+    this._handlers = {};
+  }
+}
+
+/**
+ * A touching pair of bodies
+ * normal points from bodyA to bodyB; impulse is the total normal impulse the contact solver
+ * applied this step (mass × px per step) - a resting body's weight, more when it lands.
+ */
+export interface CollisionEvent {
+  bodyA: Body;
+  bodyB: Body;
+  normal: { x: number; y: number };
+  depth: number;
+  point: { x: number; y: number }; // World-space contact point
+  impulse: number;
+  isSensor: boolean; // Either body is a sensor (no physical response)
+}
+
+/** Collision as seen from one body of the pair */
+export interface BodyCollisionEvent extends CollisionEvent {
+  other: Body;
+}
+
+export interface StepEvent {
+  timeStep: number; // seconds
+}
+
+export interface RenderEvent {
+  timestamp: number; // requestAnimationFrame time in ms
+}
+
+/** A body entering, staying in or leaving a sensor */
+export interface SensorEvent {
+  sensor: Body;
+  body: Body;
+}
+
+/** A constraint that tore and was removed from the world (and its composite) */
+export interface ConstraintBreakEvent {
+  constraint: Joint;
+  bodies: Body[];
+}
+
+export interface SleepEvent {
+  body: Body;
+}
+
+/** A body that finished returnHome() */
+export interface ReturnedHomeEvent {
+  body: Body;
+}
+
+export interface ResizeEvent {
+  bounds: WorldBounds;
+  previousBounds: WorldBounds;
+}
+
+/** A pointer picking up or releasing a body */
+export interface BodyDragEvent {
+  body: Body;
+  pointerId: number;
+  x: number; // Pointer position in world space
+  y: number;
+  velocityX: number; // Release velocity in px per step (0 on drag start)
+  velocityY: number;
+}
+
+/** The world is being torn down (emitted before its bodies are destroyed) */
+export interface DestroyEvent {
+  world: World;
+}
+
+export interface WorldEvents {
+  collisionStart: CollisionEvent;
+  collisionActive: CollisionEvent;
+  collisionEnd: CollisionEvent;
+  beforeStep: StepEvent;
+  afterStep: StepEvent;
+  beforeRender: RenderEvent;
+  afterRender: RenderEvent;
+  sleepStart: SleepEvent;
+  sleepEnd: SleepEvent;
+  sensorEnter: SensorEvent;
+  sensorStay: SensorEvent;
+  sensorExit: SensorEvent;
+  constraintBreak: ConstraintBreakEvent;
+  resize: ResizeEvent;
+  returnedHome: ReturnedHomeEvent;
+  dragStart: BodyDragEvent;
+  dragEnd: BodyDragEvent;
+  destroy: DestroyEvent;
+}
+
+export interface BodyEvents {
+  collisionStart: BodyCollisionEvent;
+  collisionActive: BodyCollisionEvent;
+  collisionEnd: BodyCollisionEvent;
+  sleepStart: SleepEvent;
+  sleepEnd: SleepEvent;
+  sensorEnter: SensorEvent; // Emitted on the sensor and on the body passing through it
+  sensorStay: SensorEvent;
+  sensorExit: SensorEvent;
+  returnedHome: ReturnedHomeEvent;
+  dragStart: BodyDragEvent;
+  dragEnd: BodyDragEvent;
+}
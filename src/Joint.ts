@@ -0,0 +1,40 @@
+/**
+ * Joint - Anything the world solves between its bodies each step
+ * Constraint (distance) and AreaConstraint (pressure) both implement it; World treats them alike
+ */
+
+import type { Body } from './Body.js';
+
+export interface Joint {
+  /**
+   * Bodies the joint acts on
+   */
+  getBodies(): Body[];
+
+  /**
+   * True when attached to the world or a static body - fixed joints are solved first
+   * so free ones build on settled positions (like Matter.js)
+   */
+  isFixed(): boolean;
+
+  /**
+   * Solve order - higher priorities are solved earlier in every pass (default: 0)
+   */
+  priority?: number;
+
+  /**
+   * Move the bodies towards satisfying the joint (one Gauss-Seidel pass)
+   * timeScale is the step length relative to 60Hz, clamped to 1
+   */
+  solve(timeScale: number): void;
+
+  /**
+   * Force-based joints add to Body.fx/fy here, before bodies integrate (dt in seconds)
+   */
+  applyForces?(dt: number): void;
+
+  /**
+   * True once the joint has torn - the world removes it (and emits constraintBreak) after solving
+   */
+  isBroken?(): boolean;
+}
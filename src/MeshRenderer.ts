@@ -0,0 +1,319 @@
+/**
+ * MeshRenderer - Draws a composite's particles as a mesh
+ * Cloth particles are invisible, so something has to show the fabric:
+ * - 'svg': an SVG overlay with one line per distance constraint
+ * - 'element': a real element (image, card, banner) draped across a particle grid - each grid
+ *   cell is split into two triangles, and each triangle is a clone of the element clipped to
+ *   its part of the texture and mapped onto the particles with an affine CSS matrix
+ * Torn constraints (removed from the composite) disappear from both: their line is removed and
+ * the cells they bordered are hidden.
+ */
+
+import type { World } from './World.js';
+import type { Body } from './Body.js';
+import type { Composite } from './Composite.js';
+import { Constraint } from './Constraint.js';
+import { getBoundsBox } from './bounds.js';
+import { markOverlay } from './ElementColliders.js';
+
+export type MeshRenderMode = 'svg' | 'element';
+
+export interface MeshRendererOptions {
+  mode?: MeshRenderMode;   // default: 'element' when an element is given, otherwise 'svg'
+  element?: HTMLElement;   // Element to drape across the grid ('element' mode)
+  columns?: number;        // Particle grid size, row-major like createCloth/createSoftBody ('element' mode)
+  rows?: number;
+  stroke?: string;         // Line colour ('svg' mode, default: currentColor)
+  strokeWidth?: number;    // Line width in px ('svg' mode, default: 1)
+  className?: string;      // Added to the overlay
+}
+
+interface MeshPiece {
+  clone: HTMLElement;
+  corners: [number, number, number]; // Body indices
+  texture: Array<{ x: number; y: number }>; // Element-local corner positions
+  edges: string[]; // Edge keys of the cell the triangle belongs to
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+export class MeshRenderer {
+  world: World;
+  composite: Composite;
+  mode: MeshRenderMode;
+  element: HTMLElement | null;
+  columns: number;
+  rows: number;
+  layer: HTMLElement | SVGSVGElement; // Overlay added to the world container
+
+  private _stroke: string;
+  private _strokeWidth: number;
+  private _lines: Map<Constraint, SVGLineElement> = new Map();
+  private _pieces: MeshPiece[] = [];
+  private _knownEdges: Set<string> = new Set(); // Grid edges that have existed - missing ones are torn
+  private _elementVisibility: string = '';
+  private _unsubscribe: (() => void) | null;
+  private _unsubscribeResize: (() => void) | null = null;
+  private _unsubscribeDestroy: (() => void) | null;
+
+  private static readonly _seamOverlap = 0.5; // px each triangle is grown by to hide hairline seams
+
+  constructor(world: World, composite: Composite, options: MeshRendererOptions = {}) {
+    this.world = world;
+    this.composite = composite;
+    this.element = options.element ?? null;
+    this.mode = options.mode ?? (this.element ? 'element' : 'svg');
+    this.columns = options.columns ?? 0;
+    this.rows = options.rows ?? 0;
+    this._stroke = options.stroke ?? 'currentColor';
+    this._strokeWidth = options.strokeWidth ?? 1;
+
+    if (this.mode === 'svg') {
+      const svg = document.createElementNS(SVG_NAMESPACE, 'svg');
+      svg.style.position = 'absolute';
+      svg.style.left = '0';
+      svg.style.top = '0';
+      svg.style.overflow = 'visible';
+      svg.style.pointerEvents = 'none';
+      this.layer = svg;
+      this._sizeOverlay();
+      this._unsubscribeResize = world.on('resize', () => this._sizeOverlay());
+    } else {
+      if (!this.element) {
+        throw new Error("MeshRenderer 'element' mode needs an element");
+      }
+      const bodyCount = this.composite.allBodies().length;
+      if (this.columns < 2 || this.rows < 2 || this.columns * this.rows !== bodyCount) {
+        throw new Error(`MeshRenderer needs columns × rows to match the composite's ${bodyCount} bodies`);
+      }
+      const layer = document.createElement('div');
+      layer.style.position = 'absolute';
+      layer.style.left = '0';
+      layer.style.top = '0';
+      layer.style.pointerEvents = 'none';
+      this.layer = layer;
+      this._createPieces(this.element);
+
+      // The clones stand in for the original
+      this._elementVisibility = this.element.style.visibility;
+      this.element.style.visibility = 'hidden';
+    }
+
+    if (options.className) {
+      this.layer.classList.add(options.className);
+    }
+    markOverlay(this.layer);
+    world.container.appendChild(this.layer);
+
+    this.update();
+    this._unsubscribe = world.on('afterRender', () => {
+      // Clean up once the composite has been removed from the world
+      if (!this.composite.world) {
+        this.destroy();
+        return;
+      }
+      this.update();
+    });
+    this._unsubscribeDestroy = world.on('destroy', () => this.destroy());
+  }
+
+  /**
+   * Redraw from current body positions (called after every world render)
+   */
+  update(): void {
+    if (this.mode === 'svg') {
+      this._updateLines();
+    } else {
+      this._updatePieces();
+    }
+  }
+
+  /**
+   * Remove the overlay, stop following the world and show the original element again
+   */
+  destroy(): void {
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this._unsubscribeResize?.();
+    this._unsubscribeResize = null;
+    this._unsubscribeDestroy?.();
+    this._unsubscribeDestroy = null;
+    this.layer.remove();
+    this._lines.clear();
+    this._pieces = [];
+    if (this.element) {
+      this.element.style.visibility = this._elementVisibility;
+    }
+  }
+
+  private _updateLines(): void {
+    const current = new Set<Constraint>();
+    for (const constraint of this.composite.allConstraints()) {
+      if (!(constraint instanceof Constraint)) continue;
+      current.add(constraint);
+
+      let line = this._lines.get(constraint);
+      if (!line) {
+        line = document.createElementNS(SVG_NAMESPACE, 'line');
+        line.setAttribute('stroke', this._stroke);
+        line.setAttribute('stroke-width', String(this._strokeWidth));
+        line.setAttribute('stroke-linecap', 'round');
+        this.layer.appendChild(line);
+        this._lines.set(constraint, line);
+      }
+
+      const a = constraint.bodyA
+        ? toVisual(constraint.bodyA, constraint.getWorldPointA())
+        : constraint.getWorldPointA();
+      const b = toVisual(constraint.bodyB, constraint.getWorldPointB());
+      line.setAttribute('x1', a.x.toFixed(1));
+      line.setAttribute('y1', a.y.toFixed(1));
+      line.setAttribute('x2', b.x.toFixed(1));
+      line.setAttribute('y2', b.y.toFixed(1));
+    }
+
+    // Constraints gone from the composite (torn or removed)
+    for (const [constraint, line] of this._lines) {
+      if (!current.has(constraint)) {
+        line.remove();
+        this._lines.delete(constraint);
+      }
+    }
+  }
+
+  /**
+   * Cover the world bounds with the SVG overlay
+   */
+  private _sizeOverlay(): void {
+    const bounds = getBoundsBox(this.world.bounds);
+    this.layer.style.width = bounds.x + bounds.width + 'px';
+    this.layer.style.height = bounds.y + bounds.height + 'px';
+  }
+
+  private _createPieces(element: HTMLElement): void {
+    const rect = element.getBoundingClientRect();
+    const cellWidth = rect.width / (this.columns - 1);
+    const cellHeight = rect.height / (this.rows - 1);
+    const bodies = this.composite.allBodies();
+    const textureOf = (index: number) => ({
+      x: (index % this.columns) * cellWidth,
+      y: Math.floor(index / this.columns) * cellHeight
+    });
+
+    for (let row = 0; row < this.rows - 1; row++) {
+      for (let col = 0; col < this.columns - 1; col++) {
+        const topLeft = row * this.columns + col;
+        const topRight = topLeft + 1;
+        const bottomLeft = topLeft + this.columns;
+        const bottomRight = bottomLeft + 1;
+        const edges = [
+          edgeKey(bodies[topLeft], bodies[topRight]),
+          edgeKey(bodies[topLeft], bodies[bottomLeft]),
+          edgeKey(bodies[topRight], bodies[bottomRight]),
+          edgeKey(bodies[bottomLeft], bodies[bottomRight])
+        ];
+
+        const triangles: Array<[number, number, number]> = [
+          [topLeft, topRight, bottomRight],
+          [topLeft, bottomRight, bottomLeft]
+        ];
+        for (const corners of triangles) {
+          const texture = corners.map(textureOf);
+          const clone = element.cloneNode(true) as HTMLElement;
+          clone.removeAttribute('id');
+          clone.style.position = 'absolute';
+          clone.style.left = '0';
+          clone.style.top = '0';
+          clone.style.margin = '0';
+          clone.style.width = rect.width + 'px';
+          clone.style.height = rect.height + 'px';
+          clone.style.boxSizing = 'border-box';
+          clone.style.visibility = 'visible';
+          clone.style.transformOrigin = '0 0';
+          clone.style.setProperty('clip-path', `polygon(${growTriangle(texture, MeshRenderer._seamOverlap)
+            .map(point => `${point.x.toFixed(1)}px ${point.y.toFixed(1)}px`)
+            .join(', ')})`);
+          this.layer.appendChild(clone);
+          this._pieces.push({ clone, corners, texture, edges });
+        }
+      }
+    }
+  }
+
+  private _updatePieces(): void {
+    const bodies = this.composite.allBodies();
+
+    // Grid edges that still exist this frame
+    const edges = new Set<string>();
+    for (const constraint of this.composite.allConstraints()) {
+      if (constraint instanceof Constraint && constraint.bodyA) {
+        edges.add(edgeKey(constraint.bodyA, constraint.bodyB));
+      }
+    }
+    for (const edge of edges) {
+      this._knownEdges.add(edge);
+    }
+
+    for (const piece of this._pieces) {
+      const torn = piece.edges.some(edge => this._knownEdges.has(edge) && !edges.has(edge));
+      if (torn) {
+        piece.clone.style.display = 'none';
+        continue;
+      }
+
+      const [p0, p1, p2] = piece.corners.map(index => getVisualCenter(bodies[index]));
+      const [u0, u1, u2] = piece.texture;
+
+      // Affine map taking the texture triangle onto the particle triangle: p = A·u + t
+      const du1x = u1.x - u0.x, du1y = u1.y - u0.y;
+      const du2x = u2.x - u0.x, du2y = u2.y - u0.y;
+      const dp1x = p1.x - p0.x, dp1y = p1.y - p0.y;
+      const dp2x = p2.x - p0.x, dp2y = p2.y - p0.y;
+      const det = du1x * du2y - du2x * du1y;
+      const a = (dp1x * du2y - dp2x * du1y) / det;
+      const c = (dp2x * du1x - dp1x * du2x) / det;
+      const b = (dp1y * du2y - dp2y * du1y) / det;
+      const d = (dp2y * du1x - dp1y * du2x) / det;
+      const e = p0.x - (a * u0.x + c * u0.y);
+      const f = p0.y - (b * u0.x + d * u0.y);
+
+      piece.clone.style.display = '';
+      piece.clone.style.transform = `matrix(${a}, ${b}, ${c}, ${d}, ${e}, ${f})`;
+    }
+  }
+}
+
+/**
+ * Centre of a body's element as drawn (circles are positioned and turned by their top-left corner)
+ */
+function getVisualCenter(body: Body): { x: number; y: number } {
+  return body.getWorldPoint({ x: body.width / 2, y: body.height / 2 });
+}
+
+/**
+ * Shift a point on a body's collision shape by the offset from its centre to the element's,
+ * turned with the body so lines stay on the same spot of the element
+ */
+function toVisual(body: Body, point: { x: number; y: number }): { x: number; y: number } {
+  const center = body.getCenter();
+  const visual = getVisualCenter(body);
+  return { x: point.x + visual.x - center.x, y: point.y + visual.y - center.y };
+}
+
+function edgeKey(a: Body, b: Body): string {
+  return a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+}
+
+/**
+ * Push each corner away from the centroid by a fixed distance
+ */
+function growTriangle(points: Array<{ x: number; y: number }>, amount: number): Array<{ x: number; y: number }> {
+  const cx = (points[0].x + points[1].x + points[2].x) / 3;
+  const cy = (points[0].y + points[1].y + points[2].y) / 3;
+  return points.map(point => {
+    const dx = point.x - cx;
+    const dy = point.y - cy;
+    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+    return { x: point.x + dx / length * amount, y: point.y + dy / length * amount };
+  });
+}
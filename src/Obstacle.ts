@@ -0,0 +1,51 @@
+/**
+ * Obstacle - Static line segment or convex polygon with no DOM element
+ * For ramps, shelves and funnels that shouldn't need an invisible element each. Bodies bounce off
+ * obstacles the way they bounce off the world bounds, with the obstacle's own restitution and friction.
+ */
+
+import type { Body } from './Body.js';
+import { getPolygonContact, type Contact } from './collision.js';
+
+export interface ObstacleConfig {
+  vertices: Array<{ x: number; y: number }>; // World space - 2 for a segment, 3+ for a convex polygon
+  restitution?: number | null; // Bounce - the lower of this and the body's (default: null = body's)
+  friction?: number | null;    // Coulomb friction, combined with the body's kineticFriction (default: null = world's kineticFriction)
+}
+
+export class Obstacle {
+  vertices: Array<{ x: number; y: number }>;
+  restitution: number | null;
+  friction: number | null;
+
+  constructor(config: ObstacleConfig) {
+    if (config.vertices.length < 2) {
+      throw new Error('Obstacle needs at least 2 vertices');
+    }
+    this.vertices = config.vertices.map(vertex => ({ x: vertex.x, y: vertex.y }));
+    this.restitution = config.restitution ?? null;
+    this.friction = config.friction ?? null;
+  }
+
+  /**
+   * Contact with a body, normal pointing from the obstacle to the body
+   * Returns null when they are further apart than `margin`
+   */
+  getContact(body: Body, margin: number = 0): Contact | null {
+    return getPolygonContact(this.vertices, body, margin);
+  }
+
+  /**
+   * World-space axis-aligned bounds
+   */
+  getBounds(): { minX: number; minY: number; maxX: number; maxY: number } {
+    const xs = this.vertices.map(vertex => vertex.x);
+    const ys = this.vertices.map(vertex => vertex.y);
+    return {
+      minX: Math.min(...xs),
+      minY: Math.min(...ys),
+      maxX: Math.max(...xs),
+      maxY: Math.max(...ys)
+    };
+  }
+}
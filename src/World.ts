@@ -3,58 +3,158 @@
  * Matches original demo exactly
  */
 
-import { Body } from './Body.js';
+import { Body, type ReturnHomeOptions, type BodyDestroyOptions } from './Body.js';
 import { Constraint } from './Constraint.js';
+import { Spring } from './joints.js';
+import { Composite } from './Composite.js';
+import type { Joint } from './Joint.js';
+import { SpatialHashBroadPhase, type BroadPhase } from './BroadPhase.js';
+import { getContact, canCollide, type Contact } from './collision.js';
+import { ContactSolver } from './ContactSolver.js';
+import { Obstacle } from './Obstacle.js';
+import { ElementColliders, type ElementCollidersOptions } from './ElementColliders.js';
+import { getTimeOfImpact, getPoseAt, type Pose } from './ccd.js';
+import { getWallContacts, getBoundsBox, type WorldBounds, type BoundsMaterial } from './bounds.js';
+import { DragController, type DragControllerOptions } from './DragController.js';
+import { EventEmitter, type WorldEvents, type CollisionEvent, type EventHandler } from './Events.js';
+
+/**
+ * Order joints are solved in within each constraint pass:
+ * - 'fixed-first': joints pinned to the world or a static body, then the rest, in the order they were added
+ * - 'alternating': same order, but every other pass sweeps backwards so neither end of a chain lags
+ *   (joints only swap places with others of the same priority, so anchors still come first)
+ * - 'graph-coloring': joints are grouped so no two in a group share a moving body, then solved group
+ *   by group - joints within a group don't affect each other, so the order they were added in barely matters
+ * Joint priority always comes first: higher priorities are solved earlier in every pass.
+ */
+export type ConstraintOrder = 'fixed-first' | 'alternating' | 'graph-coloring';
+
+/**
+ * What happens to bodies when the bounds change size:
+ * - 'clamp': bodies left outside the new bounds are pushed back in, keeping their velocity
+ * - 'scale': every body moves to the same relative place in the new bounds
+ * - 'none': bodies stay put (the walls push them back in on the next steps)
+ */
+export type ResizeMode = 'clamp' | 'scale' | 'none';
+
+export interface WorldDestroyOptions extends BodyDestroyOptions {
+  removeElements?: boolean; // Remove the elements composites generated, e.g. particles (default: true)
+}
 
 export interface WorldConfig {
   gravity?: number;
   friction?: number;
   restitution?: number;
   timeStep?: number;
-  bounds?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  bounds?: WorldBounds; // Rectangle (optionally open-sided), circle or convex polygon (default: the container's rect)
+  autoResize?: boolean; // Call resize() when the container changes size (default: true unless bounds is given)
+  resizeMode?: ResizeMode; // What resize() does with bodies (default: 'clamp')
+  broadPhase?: BroadPhase; // Default: SpatialHashBroadPhase with cell size from body radii
+  enableSleeping?: boolean; // Let settled bodies sleep (default: false, like Matter.js)
+  pauseWhenAsleep?: boolean; // Stop requesting frames while every body sleeps (default: false)
+  headless?: boolean; // Skip rendering entirely - for tests and server-side runs (default: false)
+  maxSubSteps?: number; // Most steps the loop runs per frame; extra time is dropped (default: 5)
+  interpolate?: boolean; // Render between the last two steps by the leftover time (default: false)
+  constraintIterations?: number; // Constraint solving passes per step - raise for long chains (default: 2)
+  positionIterations?: number; // Contact overlap correction passes per step (default: 6, 1 with stackingTweaks)
+  velocityIterations?: number; // Contact impulse passes per step (default: 4, 1 with stackingTweaks)
+  constraintOrder?: ConstraintOrder; // Joint solve order within each pass (default: 'fixed-first')
+  staticFriction?: number; // Coulomb friction between bodies that aren't sliding (default: 0.5)
+  kineticFriction?: number; // Coulomb friction between sliding bodies (default: 0.3)
+  stackingTweaks?: boolean; // Old contact response tuned for upright stacks - vertical-only pushes, damped upward bounces (default: false)
+  ccdSpeedThreshold?: number; // px/s above which bodies are swept against static obstacles (default: 600, Infinity = bullets only)
 }
 
 export class World {
   container: HTMLElement;
   bodies: Body[];
-  constraints: Constraint[];
+  constraints: Joint[];
+  composites: Composite[]; // Top-level composites added with add()
+  obstacles: Obstacle[];   // Static segments and polygons
+  elementColliders: ElementColliders[]; // Obstacles following page elements (addStaticFromElements)
   
   gravity: number;
   friction: number;
   restitution: number;
   timeStep: number;
   constraintIterations: number; // Number of constraint solving passes
-  bounds: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  positionIterations: number; // Number of contact overlap correction passes
+  velocityIterations: number; // Number of contact impulse passes
+  constraintOrder: ConstraintOrder;
+  staticFriction: number;
+  kineticFriction: number;
+  stackingTweaks: boolean;
+  ccdSpeedThreshold: number;
+  broadPhase: BroadPhase; // Finds candidate collision pairs each step
+  enableSleeping: boolean;
+  pauseWhenAsleep: boolean;
+  headless: boolean;
+  maxSubSteps: number;
+  interpolate: boolean;
+  bounds: WorldBounds;
+  resizeMode: ResizeMode;
   
   running: boolean;
+  paused: boolean; // Running, but no frame requested because everything is asleep
   lastTime: number;
   accumulator: number;
+  dragController: DragController | null = null;
+  events: EventEmitter<WorldEvents>;
   private rafId: number | null = null;
+  private _bodyElements: WeakSet<Element> = new WeakSet(); // Elements of registered bodies, for fast lookups
+  private _homesPending = false; // Bodies were registered since homes were last measured
+  private _boundsFromContainer: boolean; // No bounds given - resize() measures the container again
+  private _resizeObserver: ResizeObserver | null = null;
+  private _containerSize: { width: number; height: number };
+  
+  // Touching pairs keyed by body ids - previous step vs the step being solved
+  private _activeCollisions: Map<string, CollisionEvent> = new Map();
+  private _stepCollisions: Map<string, CollisionEvent> = new Map();
+  private _contactSolver: ContactSolver = new ContactSolver();
+  private _sweptPairs: Set<string> = new Set(); // Pairs the swept test stopped just short of touching this step
+  private _sweptObstacles: Map<Body, Obstacle> = new Map(); // Same for bodies stopped short of an obstacle
+  
+  // Constraint lengths when one of their bodies fell asleep - stretching away from these wakes it
+  private _sleepLengths: Map<Joint, number> = new Map();
+  private _constraintNetworks: Map<Body, Body> | null = null; // Root body of each joined group, rebuilt when joints change
   
-  // Cached constraint network for performance
-  private _constraintNetworkCache: Map<Body, Set<Body>> | null = null;
-  private _constraintNetworkDirty: boolean = true;
+  private static readonly _motionSleepThreshold = 0.08; // Matter.js Sleeping._motionSleepThreshold
+  private static readonly _motionWakeThreshold = 0.18;  // Matter.js Sleeping._motionWakeThreshold
+  private static readonly _minBias = 0.9;               // Matter.js Sleeping._minBias
+  private static readonly _baseDelta = 1 / 60; // Step length constraint stiffness is tuned for
+  private static readonly _accumulatorEpsilon = 0.000001; // ms
+  private static readonly _tensionWakeThreshold = 0.5;  // px of stretch that wakes a sleeping constraint body
+  private static readonly _sweepTolerance = 0.5; // px short of an obstacle that swept bodies stop
+  private static readonly _wallCorrectionPasses = 4; // Extra push-out passes for bodies wedged in a corner of the bounds
+  private static readonly _wallSlop = 0.01;          // px past a wall left alone by those passes
+  private static readonly _wallStopThreshold = 0.3;  // px per 1/60s - slower wall impacts don't bounce
 
   constructor(container: HTMLElement, config: WorldConfig = {}) {
     this.container = container;
     this.bodies = [];
     this.constraints = [];
+    this.composites = [];
+    this.obstacles = [];
+    this.elementColliders = [];
     
     this.gravity = config.gravity !== undefined ? config.gravity : 980;
     this.friction = config.friction !== undefined ? config.friction : 0.99;
     this.restitution = config.restitution !== undefined ? config.restitution : 0.8;
     this.timeStep = config.timeStep ?? 1/60;
-    this.constraintIterations = 2; // Matter.js default is 2, increase for longer chains
+    this.constraintIterations = config.constraintIterations ?? 2; // Matter.js default is 2, increase for longer chains
+    this.stackingTweaks = config.stackingTweaks ?? false;
+    this.positionIterations = config.positionIterations ?? (this.stackingTweaks ? 1 : 6); // Matter.js defaults 6 and 4
+    this.velocityIterations = config.velocityIterations ?? (this.stackingTweaks ? 1 : 4);
+    this.constraintOrder = config.constraintOrder ?? 'fixed-first';
+    this.staticFriction = config.staticFriction ?? 0.5;
+    this.kineticFriction = config.kineticFriction ?? 0.3;
+    this.ccdSpeedThreshold = config.ccdSpeedThreshold ?? 600;
+    this.broadPhase = config.broadPhase ?? new SpatialHashBroadPhase();
+    this.enableSleeping = config.enableSleeping ?? false;
+    this.pauseWhenAsleep = config.pauseWhenAsleep ?? false;
+    this.headless = config.headless ?? false;
+    this.maxSubSteps = config.maxSubSteps ?? 5;
+    this.interpolate = config.interpolate ?? false;
     
     const rect = container.getBoundingClientRect();
     this.bounds = config.bounds || {
@@ -63,15 +163,122 @@ export class World {
       width: rect.width,
       height: rect.height
     };
+    this.resizeMode = config.resizeMode ?? 'clamp';
+    this._boundsFromContainer = !config.bounds;
+    this._containerSize = { width: rect.width, height: rect.height };
+    
+    if ((config.autoResize ?? this._boundsFromContainer) && typeof ResizeObserver !== 'undefined') {
+      this._resizeObserver = new ResizeObserver(() => {
+        // Also called once when observing starts - only act on a real change
+        const { width, height } = container.getBoundingClientRect();
+        if (width === this._containerSize.width && height === this._containerSize.height) return;
+        this.resize();
+      });
+      this._resizeObserver.observe(container);
+    }
     
     this.running = false;
+    this.paused = false;
     this.lastTime = 0;
     this.accumulator = 0;
+    this.events = new EventEmitter<WorldEvents>();
+  }
+  
+  /**
+   * Subscribe to collision and lifecycle events
+   * Returns a function that removes the handler again
+   */
+  on<K extends keyof WorldEvents>(name: K, handler: EventHandler<WorldEvents[K]>): () => void {
+    return this.events.on(name, handler);
+  }
+  
+  off<K extends keyof WorldEvents>(name: K, handler: EventHandler<WorldEvents[K]>): void {
+    this.events.off(name, handler);
+  }
+  
+  /**
+   * Add a body, constraint (any joint), obstacle or composite (with everything nested in it) to the world
+   */
+  add(object: Body | Joint | Composite | Obstacle): void {
+    if (object instanceof Composite) {
+      this._addComposite(object);
+      if (!object.parent && !this.composites.includes(object)) {
+        this.composites.push(object);
+      }
+    } else if (object instanceof Body) {
+      this.registerBody(object);
+    } else if (object instanceof Obstacle) {
+      this.registerObstacle(object);
+    } else {
+      this.registerConstraint(object);
+    }
+  }
+  
+  /**
+   * Remove a body, constraint, obstacle or composite from the world
+   * Removing a composite removes everything nested in it, detaches it from its parent
+   * and deletes the DOM elements it generated.
+   */
+  remove(object: Body | Joint | Composite | Obstacle): void {
+    if (object instanceof Composite) {
+      if (object.parent) {
+        object.parent.removeComposite(object); // Calls back into remove() once detached
+        return;
+      }
+      const index = this.composites.indexOf(object);
+      if (index !== -1) {
+        this.composites.splice(index, 1);
+      }
+      this._removeComposite(object);
+    } else if (object instanceof Body) {
+      this.unregisterBody(object);
+    } else if (object instanceof Obstacle) {
+      this.removeObstacle(object);
+    } else {
+      this.removeConstraint(object);
+    }
+  }
+  
+  private _addComposite(composite: Composite): void {
+    composite.world = this;
+    for (const body of composite.bodies) {
+      this.registerBody(body);
+    }
+    for (const constraint of composite.constraints) {
+      this.registerConstraint(constraint);
+    }
+    for (const child of composite.composites) {
+      this._addComposite(child);
+    }
+  }
+  
+  private _removeComposite(composite: Composite, removeElements: boolean = true): void {
+    composite.cancelFrames(); // Constraints a factory hasn't created yet
+    for (const constraint of composite.constraints) {
+      this.removeConstraint(constraint);
+    }
+    for (const body of composite.bodies) {
+      this.unregisterBody(body);
+    }
+    if (removeElements) {
+      for (const element of composite.elements) {
+        element.remove();
+      }
+    }
+    composite.world = null;
+    for (const child of composite.composites) {
+      this._removeComposite(child, removeElements);
+    }
   }
   
   registerBody(body: Body): void {
     if (!this.bodies.includes(body)) {
       this.bodies.push(body);
+      this._bodyElements.add(body.element);
+      this._homesPending = true;
+      if (!body.isSleeping) {
+        this.resume();
+      }
     }
   }
   
@@ -79,21 +286,180 @@ export class World {
     const index = this.bodies.indexOf(body);
     if (index !== -1) {
       this.bodies.splice(index, 1);
+      this._bodyElements.delete(body.element);
     }
   }
   
-  registerConstraint(constraint: Constraint): void {
+  /**
+   * Whether a node is the element of a registered body
+   */
+  isBodyElement(node: Node): boolean {
+    return node instanceof Element && this._bodyElements.has(node);
+  }
+  
+  /**
+   * Take a body out of the world for good (Body.destroy calls this)
+   * Unlike unregisterBody, joints attached to the body are removed too, the body leaves its
+   * composite and its collision pairs are forgotten, so nothing refers to it any more.
+   */
+  removeBody(body: Body): void {
+    for (const constraint of this.constraints.slice()) {
+      if (!constraint.getBodies().includes(body)) continue;
+      const owner = this._findConstraintComposite(constraint);
+      if (owner) {
+        owner.removeConstraint(constraint);
+      } else {
+        this.removeConstraint(constraint);
+      }
+    }
+    for (const composite of this.composites) {
+      for (const owner of [composite, ...composite.allComposites()]) {
+        owner.removeBody(body);
+      }
+    }
+    this.unregisterBody(body);
+    
+    for (const [key, collision] of this._activeCollisions) {
+      if (collision.bodyA === body || collision.bodyB === body) {
+        this._activeCollisions.delete(key);
+      }
+    }
+    this._sweptObstacles.delete(body);
+  }
+  
+  registerConstraint(constraint: Joint): void {
     if (!this.constraints.includes(constraint)) {
       this.constraints.push(constraint);
-      this._constraintNetworkDirty = true; // Invalidate cache
+      this._constraintNetworks = null;
     }
   }
   
-  removeConstraint(constraint: Constraint): void {
+  removeConstraint(constraint: Joint): void {
     const index = this.constraints.indexOf(constraint);
     if (index !== -1) {
       this.constraints.splice(index, 1);
-      this._constraintNetworkDirty = true; // Invalidate cache
+      this._constraintNetworks = null;
+      this._sleepLengths.delete(constraint);
+    }
+  }
+  
+  registerObstacle(obstacle: Obstacle): void {
+    if (!this.obstacles.includes(obstacle)) {
+      this.obstacles.push(obstacle);
+    }
+  }
+  
+  removeObstacle(obstacle: Obstacle): void {
+    const index = this.obstacles.indexOf(obstacle);
+    if (index !== -1) {
+      this.obstacles.splice(index, 1);
+    }
+  }
+  
+  /**
+   * Turn page elements (a selector, an element or a list) into static box obstacles
+   * The obstacles follow the elements as the page reflows, scrolls or the container resizes.
+   */
+  addStaticFromElements(
+    target: string | Element | Iterable<Element>,
+    options: ElementCollidersOptions = {}
+  ): ElementColliders {
+    const colliders = new ElementColliders(this, target, options);
+    this.elementColliders.push(colliders);
+    return colliders;
+  }
+  
+  /**
+   * Remove obstacles made by addStaticFromElements and stop following their elements
+   */
+  removeStaticFromElements(colliders: ElementColliders): void {
+    const index = this.elementColliders.indexOf(colliders);
+    if (index === -1) return;
+    this.elementColliders.splice(index, 1);
+    colliders.destroy(); // Calls back here once it's no longer listed
+  }
+  
+  /**
+   * Send every body back to its origin, e.g. to reassemble exploded text (see Body.returnHome)
+   */
+  reassembleAll(options: ReturnHomeOptions = {}): void {
+    for (const body of this.bodies) {
+      body.returnHome(options);
+    }
+  }
+  
+  /**
+   * Convert viewport (client) coordinates, e.g. from a pointer event, to world space
+   * World space scrolls with the container's content, like its absolutely positioned children.
+   */
+  clientToWorld(clientX: number, clientY: number): { x: number; y: number } {
+    const rect = this.container.getBoundingClientRect();
+    return {
+      x: clientX - rect.left + this.container.scrollLeft,
+      y: clientY - rect.top + this.container.scrollTop
+    };
+  }
+  
+  /**
+   * Convert world space to viewport (client) coordinates
+   */
+  worldToClient(x: number, y: number): { x: number; y: number } {
+    const rect = this.container.getBoundingClientRect();
+    return {
+      x: x + rect.left - this.container.scrollLeft,
+      y: y + rect.top - this.container.scrollTop
+    };
+  }
+  
+  /**
+   * Update the bounds after the container changed size (called for you with autoResize)
+   * Without new bounds, bounds taken from the container's rect are measured again and
+   * bounds given in the config are kept. Body origins and homes are measured again too,
+   * since the layout around in-flow elements may have reflowed.
+   */
+  resize(bounds?: WorldBounds, mode: ResizeMode = this.resizeMode): void {
+    const rect = this.container.getBoundingClientRect();
+    this._containerSize = { width: rect.width, height: rect.height };
+    
+    const previousBounds = this.bounds;
+    if (bounds) {
+      this.bounds = bounds;
+      this._boundsFromContainer = false;
+    } else if (this._boundsFromContainer) {
+      this.bounds = { x: 0, y: 0, width: rect.width, height: rect.height };
+    }
+    
+    for (const body of this.bodies) {
+      body.updateOrigin();
+    }
+    Body.measureHomes(this.bodies);
+    this._homesPending = false;
+    
+    if (mode === 'scale') {
+      this._scaleBodies(getBoundsBox(previousBounds), getBoundsBox(this.bounds));
+    } else if (mode === 'clamp') {
+      for (const body of this.bodies) {
+        if (!body.isStatic) this._clampToBounds(body);
+      }
+    }
+    
+    this.events.emit('resize', { bounds: this.bounds, previousBounds });
+  }
+  
+  /**
+   * Let the user drag bodies with mouse, pen or touch
+   * Replaces any previously enabled controller
+   */
+  enableDragging(options: DragControllerOptions = {}): DragController {
+    this.disableDragging();
+    this.dragController = new DragController(this, options);
+    return this.dragController;
+  }
+  
+  disableDragging(): void {
+    if (this.dragController) {
+      this.dragController.destroy();
+      this.dragController = null;
     }
   }
   
@@ -107,120 +473,238 @@ export class World {
   
   stop(): void {
     this.running = false;
+    this.paused = false;
     if (this.rafId !== null) {
       cancelAnimationFrame(this.rafId);
       this.rafId = null;
     }
   }
   
+  /**
+   * Detach the simulation from the page, e.g. when a single-page app leaves the route
+   * Stops the loop, disconnects observers and pointer listeners, removes every composite
+   * (cancelling frames their factories still had pending), destroys every body and drops all
+   * event handlers. The world is empty afterwards.
+   */
+  destroy(options: WorldDestroyOptions = {}): void {
+    this.stop();
+    this.disableDragging();
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+    for (const colliders of this.elementColliders.slice()) {
+      colliders.destroy();
+    }
+    
+    // Overlays such as MeshRenderer clean up while handlers are still attached
+    this.events.emit('destroy', { world: this });
+    
+    const bodies = this.bodies.slice();
+    for (const composite of this.composites.splice(0)) {
+      this._removeComposite(composite, options.removeElements ?? true);
+    }
+    for (const body of bodies) {
+      body.destroy({ restoreStyles: options.restoreStyles });
+    }
+    
+    this.bodies = [];
+    this._bodyElements = new WeakSet();
+    this.constraints = [];
+    this.obstacles = [];
+    this._activeCollisions.clear();
+    this._stepCollisions.clear();
+    this._sweptPairs.clear();
+    this._sweptObstacles.clear();
+    this._sleepLengths.clear();
+    this.events.removeAllListeners();
+  }
+  
   private loop = (time: number): void => {
     if (!this.running) return;
     
     const deltaTime = time - this.lastTime;
     this.lastTime = time;
-    this.accumulator += deltaTime;
+    // Clamp so a frame after a long pause (background tab) can't run thousands of steps
+    this.advance(deltaTime / 1000, this.maxSubSteps);
+    this.render(time);
     
-    while (this.accumulator >= this.timeStep * 1000) {
-      this.step();
-      this.accumulator -= this.timeStep * 1000;
+    // Nothing can move until something wakes a body - resume() restarts the loop
+    if (this.pauseWhenAsleep && this._isEverythingAsleep()) {
+      this.paused = true;
+      this.rafId = null;
+      return;
     }
     
+    this.rafId = requestAnimationFrame(this.loop);
+  };
+  
+  /**
+   * Run as many fixed steps of timeStep as fit in the elapsed time
+   * Leftover time carries over to the next call, so advancing 1s in one call or in
+   * sixty calls of 1/60s runs the same steps. Returns the number of steps taken.
+   * With maxSteps, time beyond that many steps is dropped instead of carried over.
+   */
+  advance(seconds: number, maxSteps: number = Infinity): number {
+    const stepMs = this.timeStep * 1000;
+    this.accumulator += seconds * 1000;
+    
+    let steps = 0;
+    // Tolerance keeps float error from dropping a step (1s is exactly 60 steps of 1/60s)
+    while (this.accumulator >= stepMs - World._accumulatorEpsilon) {
+      if (steps >= maxSteps) {
+        this.accumulator %= stepMs;
+        break;
+      }
+      this.step();
+      this.accumulator -= stepMs;
+      steps++;
+    }
+    return steps;
+  }
+  
+  /**
+   * Write every body's transform to the DOM (skipped when headless)
+   */
+  render(timestamp: number = performance.now()): void {
+    if (this.headless) return;
+    
+    // Fraction of a step accumulated since the last one (1 = draw the latest step as is)
+    const alpha = this.interpolate
+      ? Math.min(1, Math.max(0, this.accumulator / (this.timeStep * 1000)))
+      : 1;
+    
+    this.events.emit('beforeRender', { timestamp });
+    // Homes are measured before rendering takes any new body out of the page flow
+    if (this._homesPending) {
+      Body.measureHomes(this.bodies);
+      this._homesPending = false;
+    }
     for (const body of this.bodies) {
-      body.render();
+      body.render(alpha);
     }
-    
+    this.events.emit('afterRender', { timestamp });
+  }
+  
+  /**
+   * Restart a loop paused by pauseWhenAsleep
+   * Called automatically when a body wakes or is registered
+   */
+  resume(): void {
+    if (!this.running || !this.paused) return;
+    this.paused = false;
+    this.lastTime = performance.now();
+    this.accumulator = 0;
     this.rafId = requestAnimationFrame(this.loop);
-  };
+  }
+  
+  private _isEverythingAsleep(): boolean {
+    return this.bodies.every(body =>
+      (body.isStatic && !body.isReturningHome) || !body.enabled || body.isSleeping);
+  }
   
-  private step(): void {
+  /**
+   * Advance the simulation by a single step of dt seconds (default: timeStep)
+   * Steps are deterministic - the same bodies, inputs and step sizes always give the
+   * same positions - and never touch the DOM, so they can run under jsdom or on a server.
+   * A dt of 0 (or less) does nothing.
+   */
+  step(dt: number = this.timeStep): void {
+    // Velocities are divided by the step length, so an empty step would turn them into NaN
+    if (!(dt > 0)) return;
+    
     const perfStart = performance.now();
+    this.events.emit('beforeStep', { timeStep: dt });
+    
+    // Remember where each body started for render interpolation
+    for (const body of this.bodies) {
+      body.previousState.x = body.x;
+      body.previousState.y = body.y;
+      body.previousState.angle = body.angle;
+    }
     
     // Apply gravity to all bodies (like Matter.js)
     const gravityStart = performance.now();
     this._bodiesApplyGravity();
     const gravityTime = performance.now() - gravityStart;
     
+    // Force-based joints (springs, motors) add their forces before integration
+    for (const constraint of this.constraints) {
+      constraint.applyForces?.(dt);
+    }
+    
     // Integrate
     const integrateStart = performance.now();
     for (const body of this.bodies) {
-      body.integrate(this.timeStep, this);
+      body.integrate(dt, this);
     }
     const integrateTime = performance.now() - integrateStart;
     
     // Solve constraints (like Matter.js - solve fixed constraints first, then free)
     const constraintStart = performance.now();
+    if (this.enableSleeping) {
+      this._wakeStretchedConstraints();
+    }
     Constraint.preSolveAll(this.bodies);
-    const timeScale = 1.0; // Normalized time scale
+    const timeScale = Math.min(1, dt / World._baseDelta); // Matter.js: clamp(delta / baseDelta, 0, 1)
     
     // Matter.js solves constraints in multiple iterations
+    const sweeps = this._getSolveOrder();
     for (let i = 0; i < this.constraintIterations; i++) {
-      // First pass: solve fixed constraints (bodyA is null or static, or bodyB is static)
-      for (const constraint of this.constraints) {
-        const fixedA = !constraint.bodyA || (constraint.bodyA && constraint.bodyA.isStatic);
-        const fixedB = constraint.bodyB.isStatic;
-        if (fixedA || fixedB) {
-          constraint.solve(timeScale);
-        }
-      }
-      
-      // Second pass: solve free constraints (both bodies are dynamic)
-      for (const constraint of this.constraints) {
-        const fixedA = !constraint.bodyA || (constraint.bodyA && constraint.bodyA.isStatic);
-        const fixedB = constraint.bodyB.isStatic;
-        if (!fixedA && !fixedB) {
-          constraint.solve(timeScale);
-        }
+      for (const constraint of sweeps[i % sweeps.length]) {
+        constraint.solve(timeScale);
       }
     }
     Constraint.postSolveAll(this.bodies);
+    this._removeBrokenConstraints();
     const constraintTime = performance.now() - constraintStart;
     
-    // Build constraint network cache once per step (before collision checks)
-    const networkStart = performance.now();
-    this._getConstraintNetwork();
-    const networkTime = performance.now() - networkStart;
-    
-    // Collisions - optimize for many bodies (like text demo)
+    // Collisions - broad phase keeps this fast for many bodies (like text demo)
     const collisionStart = performance.now();
     let collisionChecks = 0;
     let collisionSkips = 0;
-    let collisionDirectSkips = 0;
-    let collisionSoftBodySkips = 0;
-    let collisionBfsSkips = 0;
+    let collisionFilterSkips = 0;
     let collisionResolved = 0;
     
-    // For many bodies, use spatial optimization: skip collisions between distant bodies
-    const maxCollisionDist = 100; // Only check collisions within 100px
-    const maxCollisionDistSq = maxCollisionDist * maxCollisionDist;
+    // Continuous collision: fast bodies stop where their path first reaches a static obstacle
+    const sweptPairs = this._sweepFastBodies();
     
-    for (let i = 0; i < this.bodies.length; i++) {
-      const bodyA = this.bodies[i];
-      const posA = bodyA.getWorldPosition();
-      
-      for (let j = i + 1; j < this.bodies.length; j++) {
-        const bodyB = this.bodies[j];
-        
-        // Quick distance check - skip if too far apart
-        const posB = bodyB.getWorldPosition();
-        const dx = posB.x - posA.x;
-        const dy = posB.y - posA.y;
-        const distSq = dx * dx + dy * dy;
-        
-        // Skip collision check if bodies are too far apart
-        if (distSq > maxCollisionDistSq) {
-          collisionSkips++;
-          continue;
+    // Broad phase: only pairs whose bounds overlap reach the narrow phase
+    const pairs = this.broadPhase.getPairs(this.bodies);
+    if (sweptPairs.length > 0) {
+      // Swept bodies stop just short, so their bounds may not overlap the obstacle's
+      const keys = new Set(pairs.map(([bodyA, bodyB]) => this._pairKey(bodyA, bodyB)));
+      pairs.push(...sweptPairs.filter(([bodyA, bodyB]) => !keys.has(this._pairKey(bodyA, bodyB))));
+    }
+    collisionSkips = (this.bodies.length * (this.bodies.length - 1)) / 2 - pairs.length;
+    
+    const colliding = pairs.filter(([bodyA, bodyB]) => {
+      collisionChecks++;
+      // Collision filter (category/mask/group) is checked before any narrow-phase work
+      if (!this._canCollide(bodyA, bodyB)) {
+        collisionFilterSkips++;
+        return false;
+      }
+      return true;
+    });
+    
+    if (this.stackingTweaks) {
+      // Position and velocity passes run together until the shorter count runs out
+      const collisionPasses = Math.max(this.positionIterations, this.velocityIterations);
+      for (let i = 0; i < collisionPasses; i++) {
+        const correctPosition = i < this.positionIterations;
+        const applyVelocity = i < this.velocityIterations;
+        for (const [bodyA, bodyB] of colliding) {
+          const margin = this._sweptPairs.has(this._pairKey(bodyA, bodyB)) ? World._sweepTolerance * 2 : 0;
+          const skipReason = this.resolveCollision(bodyA, bodyB, correctPosition, applyVelocity, margin);
+          if (i > 0) continue; // Count each pair once
+          if (skipReason === 'resolved') collisionResolved++;
+          else collisionSkips++;
         }
-        
-        collisionChecks++;
-        const skipReason = this.resolveCollision(bodyA, bodyB);
-        if (skipReason === 'direct') collisionDirectSkips++;
-        else if (skipReason === 'softbody') collisionSoftBodySkips++;
-        else if (skipReason === 'bfs') collisionBfsSkips++;
-        else if (skipReason === 'resolved') collisionResolved++;
-        else collisionSkips++;
       }
+    } else {
+      collisionResolved = this._solveContacts(colliding, dt);
+      collisionSkips += colliding.length - collisionResolved;
     }
+    this._emitCollisionEvents();
     const collisionTime = performance.now() - collisionStart;
     
     const totalTime = performance.now() - perfStart;
@@ -233,9 +717,8 @@ export class World {
       console.log(`[Performance] Step ${frameCount}: total=${totalTime.toFixed(2)}ms, ` +
         `gravity=${gravityTime.toFixed(2)}ms, integrate=${integrateTime.toFixed(2)}ms, ` +
         `constraints=${constraintTime.toFixed(2)}ms (${this.constraints.length} constraints, ${this.constraintIterations} iter), ` +
-        `network=${networkTime.toFixed(2)}ms, ` +
         `collisions=${collisionTime.toFixed(2)}ms (${collisionChecks} checks: ${collisionResolved} resolved, ` +
-        `${collisionDirectSkips} direct-skip, ${collisionSoftBodySkips} softbody-skip, ${collisionBfsSkips} bfs-skip, ${collisionSkips} other-skip)`);
+        `${collisionFilterSkips} filter-skip, ${collisionSkips} other-skip)`);
     }
     
     // DEBUG: Track energy in chain links (log every 60 frames = ~1 second)
@@ -261,96 +744,296 @@ export class World {
       }
     }
     
-    // Bounds
+    // Static obstacles, then bounds
     for (const body of this.bodies) {
+      this._collideObstacles(body);
       this.constrainToBounds(body);
     }
+    
+    if (this.enableSleeping) {
+      this._updateSleeping();
+    }
+    
+    this.events.emit('afterStep', { timeStep: dt });
   }
   
   /**
-   * Applies gravitational force to all bodies (Matter.js exact style)
-   * Matter.js: body.force.y += body.mass * gravity.y * gravityScale
-   * We use: body.fy += body.mass * gravity (since our gravity is already scaled)
+   * Count quiet steps and put bodies to sleep (like Matter.js Sleeping.update)
+   * Motion is biased towards its minimum so a single jolt doesn't reset a settling body.
    */
+  private _updateSleeping(): void {
+    for (const body of this.bodies) {
+      if (body.isStatic || !body.enabled || body.isSleeping) continue;
+      
+      if (body.isDragged || body.sleepThreshold <= 0) {
+        body.sleepCounter = 0;
+        continue;
+      }
+      
+      const vx = body.x - body.prevX;
+      const vy = body.y - body.prevY;
+      const angularVelocity = body.angle - body.prevAngle;
+      const motion = vx * vx + vy * vy + angularVelocity * angularVelocity;
+      const minBias = World._minBias;
+      body.motion = minBias * Math.min(motion, body.motion) + (1 - minBias) * Math.max(motion, body.motion);
+      
+      if (body.motion < World._motionSleepThreshold) {
+        body.sleepCounter++;
+        if (body.sleepCounter >= body.sleepThreshold) {
+          body.setSleeping(true);
+        }
+      } else if (body.sleepCounter > 0) {
+        body.sleepCounter--;
+      }
+    }
+  }
+  
   /**
-   * Build or get cached constraint network adjacency list
-   * This is expensive, so we cache it and only rebuild when constraints change
+   * Joints in the order constraint passes solve them (see ConstraintOrder) - pass i uses sweep i % length
+   * Higher priorities come first, then fixed joints before free ones; the sort is stable,
+   * so equal joints keep the order they were added in.
    */
-  private _getConstraintNetwork(): Map<Body, Set<Body>> {
-    if (!this._constraintNetworkDirty && this._constraintNetworkCache) {
-      return this._constraintNetworkCache;
-    }
-    
-    // Build adjacency list from constraints
-    const neighbors = new Map<Body, Set<Body>>();
-    for (const constraint of this.constraints) {
-      if (constraint.bodyA && constraint.bodyB) {
-        if (!neighbors.has(constraint.bodyA)) {
-          neighbors.set(constraint.bodyA, new Set());
-        }
-        if (!neighbors.has(constraint.bodyB)) {
-          neighbors.set(constraint.bodyB, new Set());
+  private _getSolveOrder(): Joint[][] {
+    const entries = this.constraints
+      .map(constraint => ({ constraint, priority: constraint.priority ?? 0, fixed: constraint.isFixed() }))
+      .sort((a, b) => (b.priority - a.priority) || (Number(b.fixed) - Number(a.fixed)));
+    const ordered = entries.map(entry => entry.constraint);
+
+    if (this.constraintOrder === 'fixed-first') return [ordered];
+
+    if (this.constraintOrder === 'alternating') {
+      // Backward sweep reverses each run of equal joints, so priorities and anchors still go first
+      const backward: Joint[] = [];
+      let runStart = 0;
+      for (let i = 1; i <= entries.length; i++) {
+        const runEnds = i === entries.length ||
+          entries[i].priority !== entries[runStart].priority ||
+          entries[i].fixed !== entries[runStart].fixed;
+        if (runEnds) {
+          backward.push(...ordered.slice(runStart, i).reverse());
+          runStart = i;
         }
-        neighbors.get(constraint.bodyA)!.add(constraint.bodyB);
-        neighbors.get(constraint.bodyB)!.add(constraint.bodyA);
       }
+      return [ordered, backward];
     }
-    
-    this._constraintNetworkCache = neighbors;
-    this._constraintNetworkDirty = false;
-    return neighbors;
+
+    // Greedy colouring: each joint joins the first group none of its moving bodies is in yet
+    // Static bodies never move, so joints may share them within a group
+    const groups: Array<{ constraints: Joint[]; bodies: Set<Body> }> = [];
+    for (const constraint of ordered) {
+      const bodies = constraint.getBodies().filter(body => !body.isStatic);
+      let group = groups.find(candidate => bodies.every(body => !candidate.bodies.has(body)));
+      if (!group) {
+        group = { constraints: [], bodies: new Set() };
+        groups.push(group);
+      }
+      group.constraints.push(constraint);
+      for (const body of bodies) {
+        group.bodies.add(body);
+      }
+    }
+    return [groups.flatMap(group => group.constraints)];
+  }
+
+  /**
+   * Remove constraints that tore this step from the world and from their composite
+   */
+  private _removeBrokenConstraints(): void {
+    const broken = this.constraints.filter(constraint => constraint.isBroken?.());
+    for (const constraint of broken) {
+      const owner = this._findConstraintComposite(constraint);
+      if (owner) {
+        owner.removeConstraint(constraint);
+      } else {
+        this.removeConstraint(constraint);
+      }
+      this.events.emit('constraintBreak', { constraint, bodies: constraint.getBodies() });
+    }
+  }
+  
+  private _findConstraintComposite(constraint: Joint): Composite | null {
+    for (const composite of this.composites) {
+      if (composite.constraints.includes(constraint)) return composite;
+      for (const child of composite.allComposites()) {
+        if (child.constraints.includes(constraint)) return child;
+      }
+    }
+    return null;
   }
   
   /**
-   * Check if two bodies are in the same constraint network (connected directly or indirectly)
-   * Uses cached adjacency list and BFS to find if there's a path between the bodies
+   * Whether two bodies may touch
+   * Their collision filters must allow it. Bodies joined by constraints, directly or through
+   * other bodies, never collide unless one of them has a collision group.
    */
-  private _areBodiesInSameConstraintNetwork(a: Body, b: Body): boolean {
-    // If they're the same body, they're in the same network
-    if (a === b) return true;
-    
-    const neighbors = this._getConstraintNetwork();
-    
-    // If either body has no constraints, they're not in a network together
-    if (!neighbors.has(a) || !neighbors.has(b)) {
-      return false;
+  private _canCollide(a: Body, b: Body): boolean {
+    if (!canCollide(a.collisionFilter, b.collisionFilter)) return false;
+    if (a.collisionFilter.group !== 0 || b.collisionFilter.group !== 0) return true;
+    const networks = this._getConstraintNetworks();
+    const root = networks.get(a);
+    return root === undefined || root !== networks.get(b);
+  }
+  
+  /**
+   * Map each jointed body to the root of its constraint network (union-find, cached until joints change)
+   */
+  private _getConstraintNetworks(): Map<Body, Body> {
+    if (this._constraintNetworks) return this._constraintNetworks;
+    
+    const parents = new Map<Body, Body>();
+    const find = (body: Body): Body => {
+      let root = body;
+      while (parents.get(root) !== root) root = parents.get(root)!;
+      return root;
+    };
+    for (const constraint of this.constraints) {
+      const bodies = constraint.getBodies();
+      for (const body of bodies) {
+        if (!parents.has(body)) parents.set(body, body);
+      }
+      for (let i = 1; i < bodies.length; i++) {
+        parents.set(find(bodies[i]), find(bodies[0]));
+      }
     }
     
-    // Quick check: are they directly connected?
-    if (neighbors.get(a)!.has(b)) {
-      return true;
+    const networks = new Map<Body, Body>();
+    for (const body of parents.keys()) {
+      networks.set(body, find(body));
     }
-    
-    // BFS to find path from a to b
-    const visited = new Set<Body>();
-    const queue: Body[] = [a];
-    visited.add(a);
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (current === b) {
-        return true; // Found path!
+    this._constraintNetworks = networks;
+    return networks;
+  }
+  
+  /**
+   * Wake sleeping bodies whose constraints or springs are being pulled
+   * Each constraint remembers its length when one of its bodies fell asleep; moving the other
+   * end (or the world anchor) far enough from that length wakes the sleepers. A spring resting
+   * against gravity keeps its stretch, so only a change in it counts.
+   */
+  private _wakeStretchedConstraints(): void {
+    for (const constraint of this.constraints) {
+      // Other joints hold their sleeping bodies in place until a contact wakes them
+      if (!(constraint instanceof Constraint || constraint instanceof Spring)) continue;
+      
+      const bodyA = constraint.bodyA;
+      const bodyB = constraint.bodyB;
+      const hasSleeper = (bodyA?.isSleeping ?? false) || bodyB.isSleeping;
+      if (!hasSleeper) {
+        this._sleepLengths.delete(constraint);
+        continue;
       }
       
-      const currentNeighbors = neighbors.get(current);
-      if (currentNeighbors) {
-        for (const neighbor of currentNeighbors) {
-          if (!visited.has(neighbor)) {
-            visited.add(neighbor);
-            queue.push(neighbor);
-          }
-        }
+      const worldA = constraint.getWorldPointA();
+      const worldB = constraint.getWorldPointB();
+      const length = Math.sqrt((worldB.x - worldA.x) ** 2 + (worldB.y - worldA.y) ** 2);
+      const sleepLength = this._sleepLengths.get(constraint);
+      if (sleepLength === undefined) {
+        this._sleepLengths.set(constraint, length);
+      } else if (Math.abs(length - sleepLength) > World._tensionWakeThreshold) {
+        bodyA?.setSleeping(false);
+        bodyB.setSleeping(false);
+        this._sleepLengths.delete(constraint);
+      }
+    }
+  }
+  
+  /**
+   * Record a touching pair for this step's collision events
+   */
+  private _trackCollision(a: Body, b: Body, contact: Contact): CollisionEvent {
+    const key = this._pairKey(a, b);
+    const collision: CollisionEvent = {
+      bodyA: a,
+      bodyB: b,
+      normal: contact.normal,
+      depth: contact.depth,
+      point: contact.point,
+      impulse: this._stepCollisions.get(key)?.impulse ?? 0, // Summed over velocity passes
+      isSensor: a.isSensor || b.isSensor
+    };
+    this._stepCollisions.set(key, collision);
+    return collision;
+  }
+  
+  private _pairKey(a: Body, b: Body): string {
+    return a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+  }
+  
+  /**
+   * Compare this step's touching pairs with the previous step's (like Matter.js pairs)
+   * New pairs start, pairs still touching are active, and missing pairs end.
+   * Each event goes to the world and to both bodies of the pair.
+   */
+  private _emitCollisionEvents(): void {
+    const previous = this._activeCollisions;
+    const current = this._stepCollisions;
+    
+    for (const [key, collision] of current) {
+      if (!previous.has(key)) {
+        this._emitCollision('collisionStart', collision);
+      } else if (!this._isPairAsleep(collision)) {
+        this._emitCollision('collisionActive', collision);
+      }
+    }
+    for (const [key, collision] of previous) {
+      if (!current.has(key)) {
+        this._emitCollision('collisionEnd', collision);
       }
     }
     
-    return false; // No path found
+    this._activeCollisions = current;
+    this._stepCollisions = new Map();
+  }
+  
+  private _isPairAsleep(collision: CollisionEvent): boolean {
+    const { bodyA, bodyB } = collision;
+    return (bodyA.isSleeping || bodyA.isStatic) && (bodyB.isSleeping || bodyB.isStatic);
   }
   
+  private _emitCollision(name: 'collisionStart' | 'collisionActive' | 'collisionEnd', collision: CollisionEvent): void {
+    this.events.emit(name, collision);
+    collision.bodyA.events.emit(name, { ...collision, other: collision.bodyB });
+    collision.bodyB.events.emit(name, { ...collision, other: collision.bodyA });
+    
+    if (collision.isSensor) {
+      const sensorName = name === 'collisionStart' ? 'sensorEnter' : name === 'collisionActive' ? 'sensorStay' : 'sensorExit';
+      if (collision.bodyA.isSensor) this._emitSensor(sensorName, collision.bodyA, collision.bodyB);
+      if (collision.bodyB.isSensor) this._emitSensor(sensorName, collision.bodyB, collision.bodyA);
+    }
+  }
+  
+  private _emitSensor(name: 'sensorEnter' | 'sensorStay' | 'sensorExit', sensor: Body, body: Body): void {
+    const event = { sensor, body };
+    this.events.emit(name, event);
+    sensor.events.emit(name, event);
+    body.events.emit(name, event);
+  }
+  
+  /**
+   * Bodies currently overlapping a sensor (as of the last step)
+   */
+  getSensorOccupants(sensor: Body): Body[] {
+    const occupants: Body[] = [];
+    for (const collision of this._activeCollisions.values()) {
+      if (collision.bodyA === sensor) {
+        occupants.push(collision.bodyB);
+      } else if (collision.bodyB === sensor) {
+        occupants.push(collision.bodyA);
+      }
+    }
+    return occupants;
+  }
+  
+  /**
+   * Applies gravitational force to all bodies (Matter.js exact style)
+   * Matter.js: body.force.y += body.mass * gravity.y * gravityScale
+   * We use: body.fy += body.mass * gravity (since our gravity is already scaled)
+   */
   private _bodiesApplyGravity(): void {
     if (this.gravity === 0) return;
     
     for (const body of this.bodies) {
-      if (body.isStatic || !body.enabled || body.isDragged) continue;
+      if (body.isStatic || !body.enabled || body.isDragged || body.isSleeping) continue;
       
       // Matter.js exact formula: body.force.y += body.mass * gravity.y * gravityScale
       // Since our gravity is a single value (y direction), we apply it as:
@@ -358,96 +1041,225 @@ export class World {
     }
   }
   
-  private resolveCollision(a: Body, b: Body): string | null {
+  /**
+   * Contact response: narrow phase for every candidate pair, then the sequential impulse solver
+   * Returns how many pairs were touching
+   */
+  private _solveContacts(pairs: Array<[Body, Body]>, dt: number): number {
+    const solver = this._contactSolver;
+    
+    for (const [a, b] of pairs) {
+      // Dragged bodies follow the pointer, not contacts
+      if (a.isDragged || b.isDragged) continue;
+      
+      // Nothing moves between sleeping (or sleeping and static) bodies - keep their pair touching
+      const key = this._pairKey(a, b);
+      if ((a.isSleeping || a.isStatic) && (b.isSleeping || b.isStatic)) {
+        const sleepingCollision = this._activeCollisions.get(key);
+        if (sleepingCollision) {
+          this._stepCollisions.set(key, sleepingCollision);
+        }
+        continue;
+      }
+      
+      const contact = getContact(a, b, this._sweptPairs.has(key) ? World._sweepTolerance * 2 : 0);
+      if (!contact) continue;
+      
+      // Sensors only report overlaps - no wake or response
+      if (a.isSensor || b.isSensor) {
+        this._trackCollision(a, b, contact);
+        continue;
+      }
+      
+      this._wakeOnContact(a, b);
+      solver.add(key, a, b, contact, {
+        restitution: Math.min(
+          a.restitution !== null ? a.restitution : this.restitution,
+          b.restitution !== null ? b.restitution : this.restitution
+        ),
+        // Geometric mean, so one slippery surface is enough to slide (like Box2D)
+        staticFriction: Math.sqrt((a.staticFriction ?? this.staticFriction) * (b.staticFriction ?? this.staticFriction)),
+        kineticFriction: Math.sqrt((a.kineticFriction ?? this.kineticFriction) * (b.kineticFriction ?? this.kineticFriction))
+      }, dt);
+    }
+    
+    solver.warmStart(dt);
+    for (let i = 0; i < this.velocityIterations; i++) {
+      solver.solveVelocity();
+    }
+    for (let i = 0; i < this.positionIterations; i++) {
+      solver.solvePosition();
+    }
+    
+    const resolved = solver.contacts.length;
+    for (const contact of solver.contacts) {
+      const collision = this._trackCollision(contact.bodyA, contact.bodyB, contact.contact);
+      collision.impulse = contact.normalImpulse;
+    }
+    solver.finish(dt);
+    return resolved;
+  }
+  
+  /**
+   * Continuous collision detection for fast bodies (bullets, or faster than ccdSpeedThreshold)
+   * Each is swept from where it started the step against static and sleeping bodies and static
+   * obstacles it may cross; at the earliest time of impact it is moved back to just short of the
+   * obstacle, keeping its velocity, and the pair goes to the contact solver with it (or to
+   * _collideObstacles). World bounds are solid at any speed, so they need no sweep.
+   */
+  private _sweepFastBodies(): Array<[Body, Body]> {
+    this._sweptPairs.clear();
+    this._sweptObstacles.clear();
+    const obstacles: Array<Body | Obstacle> = this.bodies.filter(body =>
+      (body.isStatic || body.isSleeping) && body.enabled && !body.isSensor);
+    obstacles.push(...this.obstacles);
+    if (obstacles.length === 0) return [];
+    
+    const swept: Array<[Body, Body]> = [];
+    for (const body of this.bodies) {
+      if (body.isStatic || body.isSleeping || !body.enabled || body.isDragged || body.isSensor) continue;
+      
+      const start: Pose = body.previousState;
+      const dx = body.x - start.x;
+      const dy = body.y - start.y;
+      const speed = Math.sqrt(dx * dx + dy * dy) / body.deltaTime;
+      if (!body.bullet && speed <= this.ccdSpeedThreshold) continue;
+      
+      // Bounds covering the whole path
+      const center = body.getCenter();
+      const minX = Math.min(center.x, center.x - dx) - body.radius;
+      const maxX = Math.max(center.x, center.x - dx) + body.radius;
+      const minY = Math.min(center.y, center.y - dy) - body.radius;
+      const maxY = Math.max(center.y, center.y - dy) + body.radius;
+      
+      let firstImpact = Infinity;
+      let firstObstacle: Body | Obstacle | null = null;
+      for (const obstacle of obstacles) {
+        const bounds = obstacle.getBounds();
+        if (bounds.maxX < minX || bounds.minX > maxX || bounds.maxY < minY || bounds.minY > maxY) continue;
+        if (obstacle instanceof Body && !this._canCollide(body, obstacle)) continue;
+        const impact = getTimeOfImpact(body, obstacle, start, World._sweepTolerance);
+        if (impact !== null && impact < firstImpact) {
+          firstImpact = impact;
+          firstObstacle = obstacle;
+        }
+      }
+      if (!firstObstacle) continue;
+      
+      // Back to the impact, same velocity
+      const vx = body.x - body.prevX;
+      const vy = body.y - body.prevY;
+      const angularVelocity = body.angle - body.prevAngle;
+      const pose = getPoseAt(start, { x: body.x, y: body.y, angle: body.angle }, firstImpact);
+      body.x = pose.x;
+      body.y = pose.y;
+      body.angle = pose.angle;
+      body.prevX = body.x - vx;
+      body.prevY = body.y - vy;
+      body.prevAngle = body.angle - angularVelocity;
+      
+      if (firstObstacle instanceof Obstacle) {
+        this._sweptObstacles.set(body, firstObstacle);
+        continue;
+      }
+      swept.push([body, firstObstacle]);
+      this._sweptPairs.add(this._pairKey(body, firstObstacle));
+    }
+    return swept;
+  }
+  
+  /**
+   * A moving body wakes a sleeping one it touches (like Matter.js Sleeping.afterCollisions)
+   */
+  private _wakeOnContact(a: Body, b: Body): void {
+    if (a.isSleeping === b.isSleeping) return;
+    const sleeping = a.isSleeping ? a : b;
+    const moving = a.isSleeping ? b : a;
+    const vx = moving.x - moving.prevX;
+    const vy = moving.y - moving.prevY;
+    const angularVelocity = moving.angle - moving.prevAngle;
+    const motion = vx * vx + vy * vy + angularVelocity * angularVelocity;
+    if (!moving.isStatic && motion > World._motionWakeThreshold) {
+      sleeping.setSleeping(false);
+    }
+  }
+  
+  /**
+   * Original contact response, kept behind stackingTweaks
+   * Tuned for upright stacks: horizontal pushes and bounces are cut for vertical contacts,
+   * upward corrections are damped and small overlaps are left to settle.
+   */
+  private resolveCollision(
+    a: Body,
+    b: Body,
+    correctPosition: boolean = true,
+    applyVelocity: boolean = true,
+    margin: number = 0
+  ): string | null {
     // Skip collision resolution if either body is being dragged
     if (a.isDragged || b.isDragged) return 'dragged';
     
-    const posA = a.getWorldPosition();
-    const posB = b.getWorldPosition();
+    // Nothing moves between sleeping (or sleeping and static) bodies - keep their pair touching
+    if ((a.isSleeping || a.isStatic) && (b.isSleeping || b.isStatic)) {
+      const sleepingCollision = this._activeCollisions.get(this._pairKey(a, b));
+      if (sleepingCollision) {
+        this._stepCollisions.set(this._pairKey(a, b), sleepingCollision);
+      }
+      return 'sleeping';
+    }
+    
+    const posA = a.getCenter();
+    const posB = b.getCenter();
     
     const dx = posB.x - posA.x;
     const dy = posB.y - posA.y;
     const distSq = dx * dx + dy * dy;
-    const minDist = a.radius + b.radius;
-    const minDistSq = minDist * minDist;
     
-    // Check for fast-moving objects that might pass through
-    // Calculate relative velocity to see if we need continuous collision detection
     const aVx = (a.x - a.prevX);
     const aVy = (a.y - a.prevY);
     const bVx = (b.x - b.prevX);
     const bVy = (b.y - b.prevY);
     const relVx = bVx - aVx;
     const relVy = bVy - aVy;
-    const relVelSq = relVx * relVx + relVy * relVy;
-    const relVel = Math.sqrt(relVelSq);
-    
-    // Expand collision detection area for fast-moving objects
-    // Use multiple "detection radii" - smaller base, but expand for fast objects
-    let effectiveMinDist = minDist;
-    if (relVel > 5) { // Fast relative motion (>5 pixels/frame)
-      // Expand detection radius based on speed
-      // More aggressive expansion for faster objects
-      const expansion = relVel * 0.8; // Expand by 80% of relative speed
-      effectiveMinDist = minDist + expansion;
-      
-      // DEBUG: Log fast collision detection
-      if (typeof window !== 'undefined' && (window as any).__debugStack) {
-        console.log(`[Stack] Fast collision: relVel=${relVel.toFixed(2)}, baseDist=${minDist.toFixed(2)}, expandedDist=${effectiveMinDist.toFixed(2)}`);
-      }
-    }
+    const relVel = Math.sqrt(relVx * relVx + relVy * relVy);
     
-    const expandedMinDistSq = effectiveMinDist * effectiveMinDist;
+    // Narrow phase: contact normal (A to B) and penetration depth for the pair's shapes
+    // (margin > 0 only for pairs the swept test stopped just short of touching)
+    const contact = getContact(a, b, margin);
     
     // DEBUG: Log block collisions
     if (typeof window !== 'undefined' && (window as any).__debugStack) {
       const dist = Math.sqrt(distSq);
-      const overlap = minDist - dist;
-      const relVel = Math.sqrt(relVelSq);
-      if (overlap > 0 || dist < minDist * 1.2 || relVel > 5) { // Log when close, overlapping, or fast-moving
-        console.log(`[Stack] Collision check: dist=${dist.toFixed(2)}, minDist=${minDist.toFixed(2)}, overlap=${overlap.toFixed(2)}, ` +
-          `relVel=${relVel.toFixed(2)}, a.radius=${a.radius.toFixed(2)}, b.radius=${b.radius.toFixed(2)}, ` +
+      const overlap = contact ? contact.depth : -Infinity;
+      if (overlap > -margin || relVel > 5) { // Log when close, overlapping, or fast-moving
+        console.log(`[Stack] Collision check: dist=${dist.toFixed(2)}, overlap=${overlap.toFixed(2)}, ` +
+          `relVel=${relVel.toFixed(2)}, a.shape=${a.shape}, b.shape=${b.shape}, ` +
           `a.pos=(${posA.x.toFixed(1)}, ${posA.y.toFixed(1)}), b.pos=(${posB.x.toFixed(1)}, ${posB.y.toFixed(1)})`);
       }
     }
     
-    // Early exit: too far apart (using expanded distance for fast objects)
-    if (distSq >= expandedMinDistSq || distSq === 0) return 'too-far';
-    
-    // Fast path: If both bodies have constraints, they're likely in a soft body
-    // Matter.js skips collisions between soft body particles - constraints handle their relationships
-    const aHasConstraints = this._constraintNetworkCache?.has(a);
-    const bHasConstraints = this._constraintNetworkCache?.has(b);
+    // Early exit: too far apart
+    if (!contact) return 'too-far';
     
-    if (aHasConstraints && bHasConstraints) {
-      // Quick check: are they directly connected?
-      const aNeighbors = this._constraintNetworkCache!.get(a);
-      if (aNeighbors?.has(b)) {
-        return 'direct'; // Directly connected - skip collision (constraints handle it)
-      }
-      
-      // For soft bodies: if particles are close together (within 3x radius), skip collision
-      // This avoids expensive BFS for most soft body cases
-      const maxSoftBodyDist = Math.max(a.radius, b.radius) * 3;
-      if (distSq < maxSoftBodyDist * maxSoftBodyDist) {
-        // They're close - likely in same soft body, skip collision
-        return 'softbody';
-      }
-      
-      // Only do full BFS if they're far apart but both have constraints
-      // This catches edge cases but is rare
-      if (this._areBodiesInSameConstraintNetwork(a, b)) {
-        return 'bfs';
+    // Sensors only report overlaps - no wake, correction or impulse
+    if (a.isSensor || b.isSensor) {
+      if (contact.depth >= 0) {
+        this._trackCollision(a, b, contact);
       }
+      return 'sensor';
+    }
+    
+    if (contact.depth >= 0) {
+      this._wakeOnContact(a, b);
     }
     
-    const dist = Math.sqrt(distSq);
+    // Touching pairs raise collision events (swept pairs caught just short count once they bounce)
+    let collision = contact.depth >= 0 ? this._trackCollision(a, b, contact) : null;
     
-    const nx = dx / dist;
-    const ny = dy / dist;
-    // Use base minDist for overlap calculation (not expanded) to prevent floating
-    // The expansion is only for detection, not for correction
-    const overlap = minDist - dist;
+    const nx = contact.normal.x;
+    const ny = contact.normal.y;
+    // Swept pairs caught just short of touching have nothing to push apart yet
+    const overlap = Math.max(contact.depth, 0);
     
     // For vertical stacking, allow small overlap without correction (settling zone)
     // This prevents oscillation when blocks are trying to settle
@@ -532,12 +1344,17 @@ export class World {
       correctionDamping = 0.5; // Only apply 50% of correction
     }
     
+    // Velocity-only passes leave positions alone
+    if (!correctPosition) {
+      correctionDamping = 0;
+    }
+    
     const correctionAX = adjustedNX * overlap * aRatio * correctionDamping;
     const correctionAY = adjustedNY * overlap * aRatio * correctionDamping;
     const correctionBX = adjustedNX * overlap * bRatio * correctionDamping;
     const correctionBY = adjustedNY * overlap * bRatio * correctionDamping;
     
-    if (!a.isStatic && !a.isDragged) {
+    if (!a.isStatic && !a.isDragged && !a.isSleeping) {
       a.x -= correctionAX;
       a.y -= correctionAY;
       
@@ -547,7 +1364,7 @@ export class World {
           `new pos=(${a.getWorldPosition().x.toFixed(1)}, ${a.getWorldPosition().y.toFixed(1)})`);
       }
     }
-    if (!b.isStatic && !b.isDragged) {
+    if (!b.isStatic && !b.isDragged && !b.isSleeping) {
       b.x += correctionBX;
       b.y += correctionBY;
       
@@ -558,8 +1375,22 @@ export class World {
       }
     }
     
-    // Calculate relative velocity along collision normal (velocities already calculated above)
-    const relVelAlongNormal = relVx * nx + relVy * ny;
+    // Position-only passes stop here
+    if (!applyVelocity) return 'resolved';
+    
+    // Contact offsets from each centre - off-centre contacts turn impulses into spin
+    const rAX = contact.point.x - posA.x;
+    const rAY = contact.point.y - posA.y;
+    const rBX = contact.point.x - posB.x;
+    const rBY = contact.point.y - posB.y;
+    const aAngVel = a.angle - a.prevAngle;
+    const bAngVel = b.angle - b.prevAngle;
+    
+    // Calculate relative velocity along collision normal at the contact point
+    // (linear velocities already calculated above, plus angular velocity × offset)
+    const contactRelVx = relVx - bAngVel * rBY + aAngVel * rAY;
+    const contactRelVy = relVy + bAngVel * rBX - aAngVel * rAX;
+    const relVelAlongNormal = contactRelVx * nx + contactRelVy * ny;
     
     // For vertical stacking, apply strong static friction - match velocities completely
     if (Math.abs(ny) > 0.9) {
@@ -571,13 +1402,13 @@ export class World {
       // Strong friction: move velocities 90% towards average (almost perfect matching)
       const frictionStrength = 0.9;
       
-      if (!a.isStatic && !a.isDragged) {
+      if (!a.isStatic && !a.isDragged && !a.isSleeping) {
         const newAVx = aVx + (avgVx - aVx) * frictionStrength;
         const newAVy = aVy + (avgVy - aVy) * frictionStrength;
         a.prevX = a.x - newAVx;
         a.prevY = a.y - newAVy;
       }
-      if (!b.isStatic && !b.isDragged) {
+      if (!b.isStatic && !b.isDragged && !b.isSleeping) {
         const newBVx = bVx + (avgVx - bVx) * frictionStrength;
         const newBVy = bVy + (avgVy - bVy) * frictionStrength;
         b.prevX = b.x - newBVx;
@@ -625,8 +1456,13 @@ export class World {
     }
     
     // Calculate impulse based on relative velocity and restitution
-    // Impulse = (1 + restitution) * relative_velocity_along_normal / (1/massA + 1/massB)
-    const impulse = (1 + effectiveRestitution) * relVelAlongNormal / (a.inverseMass + b.inverseMass);
+    // Impulse = (1 + restitution) * relative_velocity_along_normal /
+    //           (1/massA + 1/massB + (rA × n)²/inertiaA + (rB × n)²/inertiaB)
+    const rACrossN = rAX * ny - rAY * nx;
+    const rBCrossN = rBX * ny - rBY * nx;
+    const effectiveInverseMass = a.inverseMass + b.inverseMass +
+      rACrossN * rACrossN * a.inverseInertia + rBCrossN * rBCrossN * b.inverseInertia;
+    const impulse = (1 + effectiveRestitution) * relVelAlongNormal / effectiveInverseMass;
     
     // DEBUG: Log collisions between chain links (only if debug enabled)
     if (typeof window !== 'undefined' && (window as any).__debugPendulum) {
@@ -655,115 +1491,244 @@ export class World {
       impulseNX = nx * 0.2; // Significantly reduce horizontal bounce
     }
     
+    collision ??= this._trackCollision(a, b, contact);
+    collision.impulse += Math.abs(impulse);
+    
     const impulseX = impulse * impulseNX;
     const impulseY = impulse * impulseNY;
     
-    if (!a.isStatic && !a.isDragged) {
+    if (!a.isStatic && !a.isDragged && !a.isSleeping) {
       // Apply impulse to body A: new_velocity = old_velocity + impulse / mass
       // In Verlet: velocity = (x - prevX), so prevX = x - new_velocity
       const newAVx = aVx + impulseX * a.inverseMass;
       const newAVy = aVy + impulseY * a.inverseMass;
       a.prevX = a.x - newAVx;
       a.prevY = a.y - newAVy;
+      // Torque from the impulse acting at the contact point: Δω = (rA × J) / inertia
+      a.prevAngle = a.angle - (aAngVel + (rAX * impulseY - rAY * impulseX) * a.inverseInertia);
     }
-    if (!b.isStatic && !b.isDragged) {
+    if (!b.isStatic && !b.isDragged && !b.isSleeping) {
       // Apply impulse to body B: new_velocity = old_velocity - impulse / mass
       const newBVx = bVx - impulseX * b.inverseMass;
       const newBVy = bVy - impulseY * b.inverseMass;
       b.prevX = b.x - newBVx;
       b.prevY = b.y - newBVy;
+      b.prevAngle = b.angle - (bAngVel - (rBX * impulseY - rBY * impulseX) * b.inverseInertia);
     }
     
     return 'resolved';
   }
   
+  /**
+   * Bounce a body off the static obstacles it touches
+   */
+  private _collideObstacles(body: Body): void {
+    if (this.obstacles.length === 0) return;
+    if (body.isStatic || !body.enabled || body.isDragged || body.isSleeping) return;
+    
+    const swept = this._sweptObstacles.get(body);
+    for (const obstacle of this.obstacles) {
+      // Swept bodies stop just short of the obstacle they hit
+      const margin = obstacle === swept ? World._sweepTolerance * 2 : 0;
+      const aabb = body.getBounds();
+      const bounds = obstacle.getBounds();
+      if (bounds.maxX < aabb.minX - margin || bounds.minX > aabb.maxX + margin ||
+          bounds.maxY < aabb.minY - margin || bounds.minY > aabb.maxY + margin) continue;
+      
+      const contact = obstacle.getContact(body, margin);
+      if (!contact) continue;
+      const { restitution, friction } = this._getWallMaterial(body, obstacle);
+      // The contact normal points at the body; the wall normal points into the obstacle
+      this._resolveWallContact(body, -contact.normal.x, -contact.normal.y, contact.depth,
+        restitution, friction, contact.point);
+    }
+  }
+  
+  /**
+   * Move every moving body to the same relative place in the new bounds box
+   */
+  private _scaleBodies(from: { x: number; y: number; width: number; height: number },
+                       to: { x: number; y: number; width: number; height: number }): void {
+    const scaleX = from.width > 0 ? to.width / from.width : 1;
+    const scaleY = from.height > 0 ? to.height / from.height : 1;
+    for (const body of this.bodies) {
+      if (body.isStatic) continue;
+      const center = body.getCenter();
+      const dx = to.x + (center.x - from.x) * scaleX - center.x;
+      const dy = to.y + (center.y - from.y) * scaleY - center.y;
+      if (dx !== 0 || dy !== 0) body.translate(dx, dy);
+    }
+  }
+  
+  /**
+   * Push a body left outside the bounds straight back in, without a bounce
+   */
+  private _clampToBounds(body: Body): void {
+    for (let pass = 0; pass < World._wallCorrectionPasses; pass++) {
+      const walls = getWallContacts(this.bounds, body).filter(wall => wall.depth > 0);
+      if (walls.length === 0) return;
+      for (const wall of walls) {
+        body.translate(-wall.normal.x * wall.depth, -wall.normal.y * wall.depth);
+      }
+    }
+  }
+  
+  /**
+   * Keep a body inside the world bounds
+   */
   private constrainToBounds(body: Body): void {
-    if (body.isStatic || !body.enabled || body.isDragged) return;
-    
-    const restitution = body.restitution !== null ? body.restitution : this.restitution;
-    const pos = body.getWorldPosition();
-    const oldY = body.y;
-    const oldPrevY = body.prevY;
-    const oldX = body.x;
-    const oldPrevX = body.prevX;
+    if (body.isStatic || !body.enabled || body.isDragged || body.isSleeping) return;
     
-    // In Verlet integration: velocity = (current - previous)
-    // To reverse velocity with restitution: new_prev = current - (current - prev) * restitution
+    const { restitution, friction } = this._getWallMaterial(body, this.bounds);
+    for (const wall of getWallContacts(this.bounds, body)) {
+      this._resolveWallContact(body, wall.normal.x, wall.normal.y, wall.depth, restitution, friction);
+    }
     
-    // Bottom boundary: body moving down hits bottom
-    if (pos.y + body.radius > this.bounds.height) {
-      const diff = (this.bounds.height - body.radius) - pos.y;
-      const velocityBefore = body.y - body.prevY; // Current velocity (positive = down)
-      
-      // If velocity is very small, stop bouncing to prevent jitter
-      if (Math.abs(velocityBefore) < 0.3) {
-        body.y += diff; // Move body back inside bounds
-        body.prevY = body.y; // Stop the body completely
-        return; // Skip bounce calculation for tiny velocities
-      }
-      
-      body.y += diff; // Move body back inside bounds
-      // Reverse Y velocity and apply restitution
-      // Velocity before: (y - prevY) > 0 (moving down)
-      // Velocity after: should be negative (moving up) with restitution
-      // Formula: new_prevY = y + (y - prevY) * restitution
-      // This gives: new_velocity = y - new_prevY = y - (y + (y - prevY) * restitution) = -(y - prevY) * restitution
-      body.prevY = body.y + (body.y - body.prevY) * restitution;
-    }
-    
-    // Top boundary: body moving up hits top
-    if (pos.y - body.radius < 0) {
-      const diff = body.radius - pos.y;
-      const velocityBefore = body.y - body.prevY; // Current velocity (negative = up)
-      
-      // If velocity is very small, stop bouncing to prevent jitter
-      if (Math.abs(velocityBefore) < 0.3) {
-        body.y += diff;
-        body.prevY = body.y;
-        return;
-      }
-      
-      body.y += diff; // Move body back inside bounds
-      // Reverse Y velocity and apply restitution
-      // Velocity before: (y - prevY) < 0 (moving up)
-      // Velocity after: should be positive (moving down) with restitution
-      // Same formula works: new_prevY = y + (y - prevY) * restitution
-      // If (y - prevY) is negative, this makes new_prevY < y, so new_velocity > 0
-      body.prevY = body.y + (body.y - body.prevY) * restitution;
-    }
-    
-    // Left boundary: body moving left hits left wall
-    if (pos.x - body.radius < 0) {
-      const diff = body.radius - pos.x;
-      const velocityBefore = body.x - body.prevX; // Current velocity (negative = left)
-      
-      // If velocity is very small, stop bouncing to prevent jitter
-      if (Math.abs(velocityBefore) < 0.3) {
-        body.x += diff;
-        body.prevX = body.x;
-        return;
+    // In a corner, the push out of one wall can reach into the other - move the body out
+    // again without bouncing it (velocity is left to the next step's contact)
+    for (let i = 0; i < World._wallCorrectionPasses; i++) {
+      const walls = getWallContacts(this.bounds, body).filter(wall => wall.depth > World._wallSlop);
+      if (walls.length === 0) break;
+      for (const wall of walls) {
+        const push = wall.depth;
+        body.x -= wall.normal.x * push;
+        body.y -= wall.normal.y * push;
+        body.prevX -= wall.normal.x * push;
+        body.prevY -= wall.normal.y * push;
       }
-      
-      body.x += diff; // Move body back inside bounds
-      // Reverse X velocity and apply restitution
-      body.prevX = body.x + (body.x - body.prevX) * restitution;
+    }
+  }
+  
+  /**
+   * Restitution and friction between a body and a wall (bounds or obstacle), combined like
+   * two bodies' in the contact solver: the lower restitution, the geometric mean of frictions
+   */
+  private _getWallMaterial(body: Body, wall: BoundsMaterial | Obstacle): { restitution: number; friction: number } {
+    const bodyRestitution = body.restitution !== null ? body.restitution : this.restitution;
+    const restitution = wall.restitution !== undefined && wall.restitution !== null
+      ? Math.min(wall.restitution, bodyRestitution)
+      : bodyRestitution;
+    
+    const wallFriction = wall.friction ?? (wall instanceof Obstacle ? this.kineticFriction : 0);
+    const bodyFriction = body.kineticFriction ?? this.kineticFriction;
+    return { restitution, friction: Math.sqrt(wallFriction * bodyFriction) };
+  }
+  
+  /**
+   * Push a body out of a wall and bounce it off
+   * n is a unit vector into the wall and depth how far the body reaches past it (negative for
+   * a swept body stopped just short).
+   */
+  private _resolveWallContact(
+    body: Body,
+    nx: number,
+    ny: number,
+    depth: number,
+    restitution: number,
+    friction: number,
+    point?: { x: number; y: number }
+  ): void {
+    // In Verlet integration: velocity = (current - previous)
+    const vx = body.x - body.prevX;
+    const vy = body.y - body.prevY;
+    const velocityBefore = vx * nx + vy * ny; // Velocity into the wall
+    if (depth <= 0 && velocityBefore <= 0) return; // Short of the wall and not closing in
+    
+    // Move body back inside
+    const push = Math.max(depth, 0);
+    body.x -= nx * push;
+    body.y -= ny * push;
+    
+    // If velocity is very small, stop bouncing to prevent jitter
+    const stopThreshold = World._wallStopThreshold * body.deltaTime / World._baseDelta;
+    if (Math.abs(velocityBefore) < stopThreshold) {
+      // Stop the body completely along the wall normal
+      body.prevX = body.x - (vx - velocityBefore * nx);
+      body.prevY = body.y - (vy - velocityBefore * ny);
+      this._applyWallImpulse(body, nx, ny, vx, vy, 0, point);
+    } else {
+      // Reverse the normal velocity with restitution
+      // The push above already changed the velocity by -push along n, so the bounce is
+      // -(velocityBefore - push) * restitution, as in the original demo
+      const bounced = -(velocityBefore - push) * restitution;
+      body.prevX = body.x - (vx - velocityBefore * nx + bounced * nx);
+      body.prevY = body.y - (vy - velocityBefore * ny + bounced * ny);
+      this._applyWallImpulse(body, nx, ny, vx, vy, restitution, point);
     }
     
-    // Right boundary: body moving right hits right wall
-    if (pos.x + body.radius > this.bounds.width) {
-      const diff = (this.bounds.width - body.radius) - pos.x;
-      const velocityBefore = body.x - body.prevX; // Current velocity (positive = right)
-      
-      // If velocity is very small, stop bouncing to prevent jitter
-      if (Math.abs(velocityBefore) < 0.3) {
-        body.x += diff;
-        body.prevX = body.x;
-        return;
-      }
-      
-      body.x += diff; // Move body back inside bounds
-      // Reverse X velocity and apply restitution
-      body.prevX = body.x + (body.x - body.prevX) * restitution;
+    if (friction > 0 && body.inverseMass > 0) {
+      const velocityAfter = (body.x - body.prevX) * nx + (body.y - body.prevY) * ny;
+      const normalImpulse = (velocityBefore - velocityAfter) / body.inverseMass;
+      this._applyWallFriction(body, nx, ny, normalImpulse, friction, point);
     }
   }
+  
+  /**
+   * Re-solve a wall contact for a body that can rotate
+   * The wall acts at the shape's support point rather than through the centre, so a box
+   * landing on a corner tips over instead of balancing on it. The linear bounce set by
+   * _resolveWallContact is replaced by one impulse shared between linear and angular velocity.
+   * n points into the wall; (vx, vy) is the body's velocity before the bounce.
+   */
+  private _applyWallImpulse(
+    body: Body,
+    nx: number,
+    ny: number,
+    vx: number,
+    vy: number,
+    restitution: number,
+    point: { x: number; y: number } = body.getSupportPoint(nx, ny)
+  ): void {
+    if (body.inverseInertia === 0) return;
+    
+    const center = body.getCenter();
+    const rX = point.x - center.x;
+    const rY = point.y - center.y;
+    const rCrossN = rX * ny - rY * nx;
+    if (Math.abs(rCrossN) < 0.000001) return; // Contact under the centre - linear bounce is exact
+    
+    const angularVelocity = body.angle - body.prevAngle;
+    
+    // Velocity of the contact point into the wall
+    const pointVelocity = (vx - angularVelocity * rY) * nx + (vy + angularVelocity * rX) * ny;
+    const targetVelocity = pointVelocity > 0 ? -pointVelocity * restitution : pointVelocity;
+    const impulse = (targetVelocity - pointVelocity) / (body.inverseMass + rCrossN * rCrossN * body.inverseInertia);
+    
+    body.prevX = body.x - (vx + impulse * body.inverseMass * nx);
+    body.prevY = body.y - (vy + impulse * body.inverseMass * ny);
+    body.prevAngle = body.angle - (angularVelocity + rCrossN * impulse * body.inverseInertia);
+  }
+  
+  /**
+   * Coulomb friction along a wall: slow the contact point's sliding by at most
+   * friction × the normal impulse the wall just applied (mass × px per step)
+   */
+  private _applyWallFriction(
+    body: Body,
+    nx: number,
+    ny: number,
+    normalImpulse: number,
+    friction: number,
+    point: { x: number; y: number } = body.getSupportPoint(nx, ny)
+  ): void {
+    const center = body.getCenter();
+    const rX = point.x - center.x;
+    const rY = point.y - center.y;
+    const tx = -ny;
+    const ty = nx;
+    const rCrossT = rX * ty - rY * tx;
+    
+    const vx = body.x - body.prevX;
+    const vy = body.y - body.prevY;
+    const angularVelocity = body.angle - body.prevAngle;
+    const slide = (vx - angularVelocity * rY) * tx + (vy + angularVelocity * rX) * ty;
+    
+    const maxImpulse = friction * Math.abs(normalImpulse);
+    const impulse = Math.max(-maxImpulse, Math.min(maxImpulse,
+      -slide / (body.inverseMass + rCrossT * rCrossT * body.inverseInertia)));
+    
+    body.prevX = body.x - (vx + impulse * body.inverseMass * tx);
+    body.prevY = body.y - (vy + impulse * body.inverseMass * ty);
+    body.prevAngle = body.angle - (angularVelocity + rCrossT * impulse * body.inverseInertia);
+  }
 }
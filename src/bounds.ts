@@ -0,0 +1,165 @@
+/**
+ * World bounds - the shape bodies are kept inside
+ * Coordinates are world space (relative to the container's top-left, like body positions).
+ * Every shape is solid at any speed: a body found outside is pushed back across the nearest wall
+ * rather than tested against its path, so nothing tunnels out however fast it moves.
+ */
+
+import type { Body } from './Body.js';
+import { getSupportDistance, getBoxVertices } from './collision.js';
+
+export type BoundsSide = 'top' | 'right' | 'bottom' | 'left';
+
+export interface BoundsMaterial {
+  restitution?: number | null; // Bounce off the walls - the lower of this and the body's (default: null = body's)
+  friction?: number;           // Coulomb friction along the walls (default: 0 - frictionless)
+}
+
+/**
+ * Rectangle from (x, y), optionally open on some sides (e.g. ['top'] for no ceiling)
+ */
+export interface RectBounds extends BoundsMaterial {
+  shape?: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  open?: BoundsSide[];
+}
+
+/**
+ * Circle centred on (x, y)
+ */
+export interface CircleBounds extends BoundsMaterial {
+  shape: 'circle';
+  x: number;
+  y: number;
+  radius: number;
+}
+
+/**
+ * Convex polygon, vertices in either winding order
+ */
+export interface PolygonBounds extends BoundsMaterial {
+  shape: 'polygon';
+  vertices: Array<{ x: number; y: number }>;
+}
+
+export type WorldBounds = RectBounds | CircleBounds | PolygonBounds;
+
+export interface WallContact {
+  normal: { x: number; y: number }; // Unit vector out of the bounds, into the wall
+  depth: number;                    // How far the shape reaches past the wall
+}
+
+/**
+ * Walls a body reaches past, found from its current pose
+ * Rectangle walls come bottom, top, left, right (the order the original demo tested them in).
+ */
+export function getWallContacts(bounds: WorldBounds, body: Body): WallContact[] {
+  if (bounds.shape === 'circle') {
+    const contact = getCircleWallContact(bounds, body);
+    return contact ? [contact] : [];
+  }
+
+  const walls = bounds.shape === 'polygon' ? getPolygonWalls(bounds) : getRectWalls(bounds);
+  const contacts: WallContact[] = [];
+  for (const wall of walls) {
+    const depth = getSupportDistance(body, wall.normal.x, wall.normal.y) - wall.offset;
+    if (depth > 0) {
+      contacts.push({ normal: wall.normal, depth });
+    }
+  }
+  return contacts;
+}
+
+/**
+ * Axis-aligned box around the bounds
+ */
+export function getBoundsBox(bounds: WorldBounds): { x: number; y: number; width: number; height: number } {
+  if (bounds.shape === 'circle') {
+    return {
+      x: bounds.x - bounds.radius,
+      y: bounds.y - bounds.radius,
+      width: bounds.radius * 2,
+      height: bounds.radius * 2
+    };
+  }
+  if (bounds.shape === 'polygon') {
+    const xs = bounds.vertices.map(vertex => vertex.x);
+    const ys = bounds.vertices.map(vertex => vertex.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  }
+  return { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height };
+}
+
+/** A wall as a half-plane: inside where point · normal <= offset */
+interface Wall {
+  normal: { x: number; y: number };
+  offset: number;
+}
+
+function getRectWalls(bounds: RectBounds): Wall[] {
+  const open = bounds.open ?? [];
+  const walls: Array<[BoundsSide, Wall]> = [
+    ['bottom', { normal: { x: 0, y: 1 }, offset: bounds.y + bounds.height }],
+    ['top', { normal: { x: 0, y: -1 }, offset: -bounds.y }],
+    ['left', { normal: { x: -1, y: 0 }, offset: -bounds.x }],
+    ['right', { normal: { x: 1, y: 0 }, offset: bounds.x + bounds.width }]
+  ];
+  return walls.filter(([side]) => !open.includes(side)).map(([, wall]) => wall);
+}
+
+function getPolygonWalls(bounds: PolygonBounds): Wall[] {
+  const vertices = bounds.vertices;
+  const centroid = {
+    x: vertices.reduce((sum, vertex) => sum + vertex.x, 0) / vertices.length,
+    y: vertices.reduce((sum, vertex) => sum + vertex.y, 0) / vertices.length
+  };
+
+  const walls: Wall[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+
+    // Edge normal, turned to face away from the middle
+    let nx = -(b.y - a.y) / length;
+    let ny = (b.x - a.x) / length;
+    if ((centroid.x - a.x) * nx + (centroid.y - a.y) * ny > 0) {
+      nx = -nx;
+      ny = -ny;
+    }
+    walls.push({ normal: { x: nx, y: ny }, offset: a.x * nx + a.y * ny });
+  }
+  return walls;
+}
+
+/**
+ * The part of the shape furthest from the centre is the part past the wall
+ */
+function getCircleWallContact(bounds: CircleBounds, body: Body): WallContact | null {
+  const points = body.shape === 'box' ? getBoxVertices(body) : [body.getCenter()];
+  const reach = body.shape === 'box' ? 0 : body.radius;
+
+  let furthest = points[0];
+  let furthestDistSq = -1;
+  for (const point of points) {
+    const distSq = (point.x - bounds.x) ** 2 + (point.y - bounds.y) ** 2;
+    if (distSq > furthestDistSq) {
+      furthest = point;
+      furthestDistSq = distSq;
+    }
+  }
+
+  const dist = Math.sqrt(furthestDistSq);
+  const depth = dist + reach - bounds.radius;
+  if (depth <= 0 || dist === 0) return null;
+  return {
+    normal: { x: (furthest.x - bounds.x) / dist, y: (furthest.y - bounds.y) / dist },
+    depth
+  };
+}
@@ -0,0 +1,401 @@
+/**
+ * Narrow phase - contact generation between body shapes
+ * Circles use the body's world position as their centre (original demo behaviour);
+ * boxes span the element rect from the world position, rotated by the body's angle.
+ */
+
+import type { Body, CollisionFilter } from './Body.js';
+
+type Point = { x: number; y: number };
+
+export interface Contact {
+  normal: { x: number; y: number }; // Unit vector pointing from A to B
+  depth: number;                    // Penetration depth (negative = gap between shapes)
+  point: { x: number; y: number };  // World-space contact point
+}
+
+/**
+ * Check whether two collision filters allow a collision (Matter.js Detector.canCollide)
+ * Bodies sharing a non-zero group always collide (positive) or never collide (negative);
+ * otherwise each body's mask must include the other's category.
+ */
+export function canCollide(filterA: CollisionFilter, filterB: CollisionFilter): boolean {
+  if (filterA.group === filterB.group && filterA.group !== 0) {
+    return filterA.group > 0;
+  }
+  return (filterA.mask & filterB.category) !== 0 && (filterB.mask & filterA.category) !== 0;
+}
+
+/**
+ * Generate a contact between two bodies
+ * Returns null when the shapes are further apart than `margin`
+ * (margin lets fast bodies be caught before they actually overlap)
+ */
+export function getContact(a: Body, b: Body, margin: number = 0): Contact | null {
+  if (a.shape === 'circle' && b.shape === 'circle') {
+    return circleCircle(a, b, margin);
+  }
+  if (a.shape === 'box' && b.shape === 'box') {
+    return boxBox(a, b, margin);
+  }
+  if (a.shape === 'circle') {
+    return flip(boxCircle(b, a, margin));
+  }
+  return boxCircle(a, b, margin);
+}
+
+/**
+ * Generate a contact between a static convex polygon and a body
+ * Two vertices make a line segment. The normal points from the polygon to the body.
+ */
+export function getPolygonContact(vertices: Point[], body: Body, margin: number = 0): Contact | null {
+  if (body.shape === 'box') {
+    return polygonPolygon(vertices, getBoxVertices(body), margin);
+  }
+  return polygonCircle(vertices, body.getCenter(), body.radius, margin);
+}
+
+/**
+ * Furthest the shape reaches along a unit direction (its support point projected onto it)
+ */
+export function getSupportDistance(body: Body, dirX: number, dirY: number): number {
+  const center = body.getCenter();
+  const distance = center.x * dirX + center.y * dirY;
+  if (body.shape !== 'box') {
+    return distance + body.radius;
+  }
+  return distance + projectRadius(toOrientedBox(body), { x: dirX, y: dirY });
+}
+
+/**
+ * World-space corners of a box body, rotated by its angle
+ */
+export function getBoxVertices(body: Body): Point[] {
+  return getVertices(toOrientedBox(body));
+}
+
+function flip(contact: Contact | null): Contact | null {
+  if (!contact) return null;
+  contact.normal.x = -contact.normal.x;
+  contact.normal.y = -contact.normal.y;
+  return contact;
+}
+
+function circleCircle(a: Body, b: Body, margin: number): Contact | null {
+  const centerA = a.getCenter();
+  const centerB = b.getCenter();
+  const dx = centerB.x - centerA.x;
+  const dy = centerB.y - centerA.y;
+  const distSq = dx * dx + dy * dy;
+
+  // Coincident centres have no usable normal
+  if (distSq === 0) return null;
+
+  const dist = Math.sqrt(distSq);
+  const depth = a.radius + b.radius - dist;
+  if (depth <= -margin) return null;
+
+  const nx = dx / dist;
+  const ny = dy / dist;
+  return {
+    normal: { x: nx, y: ny },
+    depth,
+    point: { x: centerA.x + nx * a.radius, y: centerA.y + ny * a.radius }
+  };
+}
+
+/**
+ * Box (A) against circle (B) - normal points from box to circle
+ * Worked in the box's local frame so rotated boxes need no special case
+ */
+function boxCircle(box: Body, circle: Body, margin: number): Contact | null {
+  const boxCenter = box.getCenter();
+  const circleCenter = circle.getCenter();
+  const hx = box.width / 2;
+  const hy = box.height / 2;
+  const cos = Math.cos(box.angle);
+  const sin = Math.sin(box.angle);
+
+  // Circle centre relative to box centre, in box-local axes
+  const worldDx = circleCenter.x - boxCenter.x;
+  const worldDy = circleCenter.y - boxCenter.y;
+  const dx = worldDx * cos + worldDy * sin;
+  const dy = -worldDx * sin + worldDy * cos;
+
+  // Local-to-world helpers
+  const toWorldDir = (x: number, y: number) => ({ x: x * cos - y * sin, y: x * sin + y * cos });
+  const toWorldPoint = (x: number, y: number) => {
+    const d = toWorldDir(x, y);
+    return { x: boxCenter.x + d.x, y: boxCenter.y + d.y };
+  };
+
+  // Closest point on the box to the circle centre
+  const closestX = Math.max(-hx, Math.min(hx, dx));
+  const closestY = Math.max(-hy, Math.min(hy, dy));
+
+  if (closestX === dx && closestY === dy) {
+    // Circle centre is inside the box - push out along the shallowest axis
+    const penX = hx - Math.abs(dx);
+    const penY = hy - Math.abs(dy);
+    if (penX < penY) {
+      const sign = dx < 0 ? -1 : 1;
+      return {
+        normal: toWorldDir(sign, 0),
+        depth: circle.radius + penX,
+        point: toWorldPoint(sign * hx, dy)
+      };
+    }
+    const sign = dy < 0 ? -1 : 1;
+    return {
+      normal: toWorldDir(0, sign),
+      depth: circle.radius + penY,
+      point: toWorldPoint(dx, sign * hy)
+    };
+  }
+
+  const diffX = dx - closestX;
+  const diffY = dy - closestY;
+  const dist = Math.sqrt(diffX * diffX + diffY * diffY);
+  const depth = circle.radius - dist;
+  if (depth <= -margin) return null;
+
+  return {
+    normal: toWorldDir(diffX / dist, diffY / dist),
+    depth,
+    point: toWorldPoint(closestX, closestY)
+  };
+}
+
+interface OrientedBox {
+  center: { x: number; y: number };
+  axes: [{ x: number; y: number }, { x: number; y: number }];
+  half: [number, number];
+}
+
+function toOrientedBox(body: Body): OrientedBox {
+  const cos = Math.cos(body.angle);
+  const sin = Math.sin(body.angle);
+  return {
+    center: body.getCenter(),
+    axes: [{ x: cos, y: sin }, { x: -sin, y: cos }],
+    half: [body.width / 2, body.height / 2]
+  };
+}
+
+/** Half-extent of a box projected onto an axis */
+function projectRadius(box: OrientedBox, axis: { x: number; y: number }): number {
+  return box.half[0] * Math.abs(box.axes[0].x * axis.x + box.axes[0].y * axis.y) +
+    box.half[1] * Math.abs(box.axes[1].x * axis.x + box.axes[1].y * axis.y);
+}
+
+function getVertices(box: OrientedBox): Array<{ x: number; y: number }> {
+  const [u, v] = box.axes;
+  const [hx, hy] = box.half;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => ({
+    x: box.center.x + u.x * hx * sx + v.x * hy * sy,
+    y: box.center.y + u.y * hx * sx + v.y * hy * sy
+  }));
+}
+
+/**
+ * Box against box - separating axis test on both boxes' axes
+ * The contact point sits on the incident box's deepest feature, clipped to the
+ * reference face, so face-to-face contacts land in the middle of the overlap.
+ */
+function boxBox(a: Body, b: Body, margin: number): Contact | null {
+  const boxA = toOrientedBox(a);
+  const boxB = toOrientedBox(b);
+  const dx = boxB.center.x - boxA.center.x;
+  const dy = boxB.center.y - boxA.center.y;
+
+  let depth = Infinity;
+  let normal = { x: 0, y: 0 };
+  let referenceIsA = true;
+
+  const axes = [...boxA.axes, ...boxB.axes];
+  for (let i = 0; i < axes.length; i++) {
+    const axis = axes[i];
+    const distance = dx * axis.x + dy * axis.y;
+    const overlap = projectRadius(boxA, axis) + projectRadius(boxB, axis) - Math.abs(distance);
+    if (overlap <= -margin) return null;
+
+    // Strictly smaller only, so A's faces win ties (stable for aligned stacks)
+    if (overlap < depth - 1e-9) {
+      depth = overlap;
+      const sign = distance < 0 ? -1 : 1;
+      normal = { x: axis.x * sign, y: axis.y * sign };
+      referenceIsA = i < 2;
+    }
+  }
+
+  // Incident box's deepest vertices along the normal (towards the reference box)
+  const reference = referenceIsA ? boxA : boxB;
+  const incident = referenceIsA ? boxB : boxA;
+  const direction = referenceIsA ? -1 : 1;
+  const vertices = getVertices(incident);
+  const depths = vertices.map(vertex => (vertex.x * normal.x + vertex.y * normal.y) * direction);
+  const deepest = Math.max(...depths);
+  const feature = vertices.filter((_, i) => depths[i] > deepest - 0.5);
+
+  // Clip the incident feature to the reference face along the tangent
+  const tangent = { x: -normal.y, y: normal.x };
+  const referenceT = reference.center.x * tangent.x + reference.center.y * tangent.y;
+  const referenceExtent = projectRadius(reference, tangent);
+  const featureT = feature.map(vertex => vertex.x * tangent.x + vertex.y * tangent.y);
+  let minT = Math.max(Math.min(...featureT), referenceT - referenceExtent);
+  let maxT = Math.min(Math.max(...featureT), referenceT + referenceExtent);
+  if (minT > maxT) {
+    minT = maxT = featureT.reduce((sum, t) => sum + t, 0) / featureT.length;
+  }
+
+  const pointN = deepest * direction;
+  const pointT = (minT + maxT) / 2;
+  return {
+    normal,
+    depth,
+    point: {
+      x: normal.x * pointN + tangent.x * pointT,
+      y: normal.y * pointN + tangent.y * pointT
+    }
+  };
+}
+
+/** Unit normals of a convex polygon's edges (a segment has one) */
+function getEdgeNormals(vertices: Point[]): Point[] {
+  const edges = vertices.length === 2 ? 1 : vertices.length;
+  const normals: Point[] = [];
+  for (let i = 0; i < edges; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length > 0) {
+      normals.push({ x: -(b.y - a.y) / length, y: (b.x - a.x) / length });
+    }
+  }
+  return normals;
+}
+
+function project(vertices: Point[], axis: Point): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const vertex of vertices) {
+    const distance = vertex.x * axis.x + vertex.y * axis.y;
+    min = Math.min(min, distance);
+    max = Math.max(max, distance);
+  }
+  return [min, max];
+}
+
+/**
+ * Convex polygon (A) against circle (B) - normal points from polygon to circle
+ * The contact is the closest point on the outline; a centre inside the polygon leaves through it.
+ */
+function polygonCircle(vertices: Point[], center: Point, radius: number, margin: number): Contact | null {
+  const edges = vertices.length === 2 ? 1 : vertices.length;
+  let closest: Point = vertices[0];
+  let closestDistSq = Infinity;
+  let closestNormal: Point = { x: 0, y: -1 };
+  let inside = vertices.length > 2;
+  let winding = 0;
+  for (let i = 0; i < edges; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const edgeX = b.x - a.x;
+    const edgeY = b.y - a.y;
+    const lengthSq = edgeX * edgeX + edgeY * edgeY;
+    const t = lengthSq > 0
+      ? Math.max(0, Math.min(1, ((center.x - a.x) * edgeX + (center.y - a.y) * edgeY) / lengthSq))
+      : 0;
+    const point = { x: a.x + edgeX * t, y: a.y + edgeY * t };
+    const distSq = (center.x - point.x) ** 2 + (center.y - point.y) ** 2;
+    if (distSq < closestDistSq) {
+      closestDistSq = distSq;
+      closest = point;
+      const length = Math.sqrt(lengthSq) || 1;
+      closestNormal = { x: -edgeY / length, y: edgeX / length };
+    }
+
+    // Inside a convex polygon the centre is on the same side of every edge
+    const side = Math.sign(edgeX * (center.y - a.y) - edgeY * (center.x - a.x));
+    if (side !== 0) {
+      if (winding !== 0 && side !== winding) inside = false;
+      winding = side;
+    }
+  }
+
+  const dist = Math.sqrt(closestDistSq);
+  if (inside) {
+    // Centre exactly on an edge - leave through it (edge normals point inwards for a positive winding)
+    const outward = winding > 0 ? -1 : 1;
+    const normal = dist > 0
+      ? { x: (closest.x - center.x) / dist, y: (closest.y - center.y) / dist }
+      : { x: closestNormal.x * outward, y: closestNormal.y * outward };
+    return { normal, depth: radius + dist, point: closest };
+  }
+
+  const depth = radius - dist;
+  if (depth <= -margin) return null;
+
+  // Centre exactly on a segment - push out along the edge normal
+  const normal = dist > 0
+    ? { x: (center.x - closest.x) / dist, y: (center.y - closest.y) / dist }
+    : closestNormal;
+  return { normal, depth, point: closest };
+}
+
+/**
+ * Convex polygon against convex polygon - separating axis test on both polygons' edge normals
+ * The contact point is found like boxBox: the incident polygon's deepest feature, clipped to the
+ * reference polygon's extent along the face.
+ */
+function polygonPolygon(a: Point[], b: Point[], margin: number): Contact | null {
+  const normalsA = getEdgeNormals(a);
+  const axes = [...normalsA, ...getEdgeNormals(b)];
+
+  let depth = Infinity;
+  let normal = { x: 0, y: 0 };
+  let referenceIsA = true;
+  for (let i = 0; i < axes.length; i++) {
+    const axis = axes[i];
+    const [minA, maxA] = project(a, axis);
+    const [minB, maxB] = project(b, axis);
+    const forward = maxA - minB;  // Overlap with B on the positive side of A
+    const backward = maxB - minA; // Overlap with B on the negative side
+    const overlap = Math.min(forward, backward);
+    if (overlap <= -margin) return null;
+
+    if (overlap < depth - 1e-9) {
+      depth = overlap;
+      const sign = forward <= backward ? 1 : -1;
+      normal = { x: axis.x * sign, y: axis.y * sign };
+      referenceIsA = i < normalsA.length;
+    }
+  }
+
+  const reference = referenceIsA ? a : b;
+  const incident = referenceIsA ? b : a;
+  const direction = referenceIsA ? -1 : 1;
+  const depths = incident.map(vertex => (vertex.x * normal.x + vertex.y * normal.y) * direction);
+  const deepest = Math.max(...depths);
+  const feature = incident.filter((_, i) => depths[i] > deepest - 0.5);
+
+  const tangent = { x: -normal.y, y: normal.x };
+  const [referenceMin, referenceMax] = project(reference, tangent);
+  const featureT = feature.map(vertex => vertex.x * tangent.x + vertex.y * tangent.y);
+  let minT = Math.max(Math.min(...featureT), referenceMin);
+  let maxT = Math.min(Math.max(...featureT), referenceMax);
+  if (minT > maxT) {
+    minT = maxT = featureT.reduce((sum, t) => sum + t, 0) / featureT.length;
+  }
+
+  const pointN = deepest * direction;
+  const pointT = (minT + maxT) / 2;
+  return {
+    normal,
+    depth,
+    point: {
+      x: normal.x * pointN + tangent.x * pointT,
+      y: normal.y * pointN + tangent.y * pointT
+    }
+  };
+}
@@ -6,6 +6,9 @@
 import type { World } from './World.js';
 import { Body, type BodyConfig } from './Body.js';
 import { Constraint, type ConstraintConfig } from './Constraint.js';
+import { Composite } from './Composite.js';
+import { AreaConstraint } from './AreaConstraint.js';
+import { markOverlay } from './ElementColliders.js';
 
 export interface SoftBodyOptions {
   stiffness?: number;
@@ -23,6 +26,29 @@ export interface ClothOptions {
   constraintOptions?: Partial<ConstraintConfig>;
 }
 
+export interface ChainOptions {
+  linkLength?: number; // Distance between link centres (default: measured for existing elements, linkRadius * 2 for generated links)
+  linkRadius?: number; // Radius of generated links (default: 6)
+  stiffness?: number;
+  damping?: number;
+  pinStart?: boolean; // Pin the first link to the anchor (default: true)
+  pinEnd?: boolean; // Pin the last link (default: false)
+  endAnchor?: { x: number; y: number }; // Where the last link is pinned (default: where it starts)
+  selfCollision?: boolean; // Let links collide with each other (default: false)
+  linkOptions?: Partial<BodyConfig>;
+  constraintOptions?: Partial<ConstraintConfig>;
+}
+
+export interface BlobOptions {
+  stiffness?: number; // Perimeter constraint stiffness
+  damping?: number;
+  pressure?: number; // Target area as a multiple of the rest area - above 1 inflates (default: 1)
+  areaStiffness?: number; // How hard the blob holds its area, 0-1 (default: 1)
+  skin?: boolean | HTMLElement; // Clip an element (true: a generated `.blob-skin`) to the particle ring
+  particleOptions?: Partial<BodyConfig>;
+  constraintOptions?: Partial<ConstraintConfig>;
+}
+
 /**
  * Create a soft body - grid of particles connected by flexible constraints
  * Based on Matter.js softBody example
@@ -36,7 +62,7 @@ export interface ClothOptions {
  * @param particleRadius - Radius of each particle
  * @param spacing - Spacing between particles (default: particleRadius * 2.5)
  * @param options - Configuration options
- * @returns Object with bodies and constraints arrays
+ * @returns Composite already added to the world (constraints are added on the next frame)
  */
 export function createSoftBody(
   world: World,
@@ -48,7 +74,7 @@ export function createSoftBody(
   particleRadius: number,
   spacing?: number,
   options: SoftBodyOptions = {}
-): { bodies: Body[]; constraints: Constraint[] } {
+): Composite {
   const {
     stiffness = 0.2,
     damping = 0.1,
@@ -67,7 +93,12 @@ export function createSoftBody(
   const startY = y - totalHeight / 2;
 
   const bodies: Body[] = [];
-  const constraints: Constraint[] = [];
+
+  const composite = new Composite([], [], 'Soft Body');
+  world.add(composite);
+
+  // Particles of one composite never collide with each other - constraints hold them apart
+  const group = Body.nextGroup(true);
 
   // Create grid of particles
   for (let row = 0; row < rows; row++) {
@@ -86,6 +117,7 @@ export function createSoftBody(
       element.style.top = (py - particleRadius) + 'px';
       element.style.pointerEvents = 'none';
       container.appendChild(element);
+      composite.elements.push(element);
 
       // Create body with default soft body properties
       const body = new Body(element, world, {
@@ -93,16 +125,17 @@ export function createSoftBody(
         radius: particleRadius,
         friction: 0.05,
         restitution: 0.1,
-        ...particleOptions
+        ...particleOptions,
+        collisionFilter: { group, ...particleOptions.collisionFilter }
       });
 
-      world.registerBody(body);
+      composite.addBody(body);
       bodies.push(body);
     }
   }
 
   // Wait a frame for bodies to initialize before creating constraints
-  requestAnimationFrame(() => {
+  composite.requestFrame(() => {
     // Create horizontal constraints (connect particles in same row)
     for (let row = 0; row < rows; row++) {
       for (let col = 0; col < columns - 1; col++) {
@@ -126,8 +159,7 @@ export function createSoftBody(
           ...constraintOptions
         });
 
-        world.registerConstraint(constraint);
-        constraints.push(constraint);
+        composite.addConstraint(constraint);
       }
     }
 
@@ -154,8 +186,7 @@ export function createSoftBody(
           ...constraintOptions
         });
 
-        world.registerConstraint(constraint);
-        constraints.push(constraint);
+        composite.addConstraint(constraint);
       }
     }
 
@@ -184,8 +215,7 @@ export function createSoftBody(
             ...constraintOptions
           });
 
-          world.registerConstraint(constraint);
-          constraints.push(constraint);
+          composite.addConstraint(constraint);
         }
       }
 
@@ -212,14 +242,13 @@ export function createSoftBody(
             ...constraintOptions
           });
 
-          world.registerConstraint(constraint);
-          constraints.push(constraint);
+          composite.addConstraint(constraint);
         }
       }
     }
   });
 
-  return { bodies, constraints };
+  return composite;
 }
 
 /**
@@ -235,7 +264,7 @@ export function createSoftBody(
  * @param particleRadius - Radius of each particle
  * @param spacing - Spacing between particles (default: particleRadius * 2.5)
  * @param options - Configuration options
- * @returns Object with bodies and constraints arrays
+ * @returns Composite already added to the world (constraints are added on the next frame)
  */
 export function createCloth(
   world: World,
@@ -247,7 +276,7 @@ export function createCloth(
   particleRadius: number,
   spacing?: number,
   options: ClothOptions = {}
-): { bodies: Body[]; constraints: Constraint[] } {
+): Composite {
   const {
     stiffness = 0.06, // Softer than soft body
     damping = 0.1,
@@ -260,7 +289,12 @@ export function createCloth(
   const actualSpacing = spacing ?? particleRadius * 2.5;
 
   const bodies: Body[] = [];
-  const constraints: Constraint[] = [];
+
+  const composite = new Composite([], [], 'Cloth');
+  world.add(composite);
+
+  // Particles of one composite never collide with each other - constraints hold them apart
+  const group = Body.nextGroup(true);
 
   // Create grid of particles
   for (let row = 0; row < rows; row++) {
@@ -280,6 +314,7 @@ export function createCloth(
       element.style.pointerEvents = 'none';
       element.style.visibility = 'hidden'; // Invisible particles
       container.appendChild(element);
+      composite.elements.push(element);
 
       // Create body with cloth properties
       const body = new Body(element, world, {
@@ -288,16 +323,17 @@ export function createCloth(
         friction: 0.00001, // Very low friction for cloth
         restitution: 0.1,
         isStatic: pinTop && row === 0, // Pin top row if requested
-        ...particleOptions
+        ...particleOptions,
+        collisionFilter: { group, ...particleOptions.collisionFilter }
       });
 
-      world.registerBody(body);
+      composite.addBody(body);
       bodies.push(body);
     }
   }
 
   // Wait a frame for bodies to initialize before creating constraints
-  requestAnimationFrame(() => {
+  composite.requestFrame(() => {
     // Create horizontal constraints
     for (let row = 0; row < rows; row++) {
       for (let col = 0; col < columns - 1; col++) {
@@ -321,8 +357,7 @@ export function createCloth(
           ...constraintOptions
         });
 
-        world.registerConstraint(constraint);
-        constraints.push(constraint);
+        composite.addConstraint(constraint);
       }
     }
 
@@ -349,11 +384,359 @@ export function createCloth(
           ...constraintOptions
         });
 
-        world.registerConstraint(constraint);
-        constraints.push(constraint);
+        composite.addConstraint(constraint);
       }
     }
   });
 
-  return { bodies, constraints };
+  return composite;
+}
+
+/**
+ * Create a chain - links joined end to end, optionally pinned at either end
+ * Based on Matter.js Composites.chain and the chain pendulum demo
+ * 
+ * Links are either existing elements (e.g. the words of a heading, linked in the
+ * order given and left where they are) or generated `.chain-link` circles hanging
+ * straight down from the anchor.
+ * 
+ * @param world - World instance
+ * @param container - Container element for generated links
+ * @param elements - Elements to link, or the number of links to generate
+ * @param anchor - World point the first link hangs from (null: where the first link starts)
+ * @param options - Configuration options
+ * @returns Composite already added to the world (constraints are added on the next frame)
+ */
+export function createChain(
+  world: World,
+  container: HTMLElement,
+  elements: HTMLElement[] | number,
+  anchor: { x: number; y: number } | null,
+  options: ChainOptions = {}
+): Composite {
+  const {
+    linkRadius = 6,
+    stiffness = 0.9,
+    damping = 0.1, // Prevents energy building up along the chain
+    pinStart = true,
+    pinEnd = false,
+    selfCollision = false,
+    linkOptions = {},
+    constraintOptions = {}
+  } = options;
+
+  const composite = new Composite([], [], 'Chain');
+  world.add(composite);
+
+  // Links overlap at the joints, so by default they never collide with each other
+  const collisionFilter = selfCollision
+    ? { ...linkOptions.collisionFilter }
+    : { group: Body.nextGroup(true), ...linkOptions.collisionFilter };
+
+  const bodies: Body[] = [];
+
+  if (typeof elements === 'number') {
+    const linkLength = options.linkLength ?? linkRadius * 2;
+    const startX = anchor?.x ?? 0;
+    const startY = anchor?.y ?? 0;
+
+    for (let i = 0; i < elements; i++) {
+      // First link hangs one link length below the anchor
+      const px = startX;
+      const py = startY + (anchor ? i + 1 : i) * linkLength;
+
+      const element = document.createElement('div');
+      element.className = 'chain-link';
+      element.style.position = 'absolute';
+      element.style.width = (linkRadius * 2) + 'px';
+      element.style.height = (linkRadius * 2) + 'px';
+      element.style.borderRadius = '50%';
+      element.style.left = (px - linkRadius) + 'px';
+      element.style.top = (py - linkRadius) + 'px';
+      container.appendChild(element);
+      composite.elements.push(element);
+
+      const body = new Body(element, world, {
+        mass: 0.4,
+        radius: linkRadius,
+        restitution: 0.1,
+        ...linkOptions,
+        collisionFilter
+      });
+
+      composite.addBody(body);
+      bodies.push(body);
+    }
+  } else {
+    for (const element of elements) {
+      const body = new Body(element, world, {
+        ...linkOptions,
+        collisionFilter
+      });
+
+      composite.addBody(body);
+      bodies.push(body);
+    }
+  }
+
+  if (bodies.length === 0) {
+    return composite;
+  }
+
+  // Wait a frame for bodies to initialize before creating constraints
+  composite.requestFrame(() => {
+    // Links are joined centre to centre, whatever their shape
+    const centerOf = (body: Body) => {
+      const center = body.getCenter();
+      const position = body.getWorldPosition();
+      return { x: center.x - position.x, y: center.y - position.y };
+    };
+
+    if (pinStart) {
+      const first = bodies[0];
+      composite.addConstraint(new Constraint({
+        bodyA: null,
+        bodyB: first,
+        pointA: anchor ?? first.getCenter(),
+        pointB: centerOf(first),
+        length: anchor ? options.linkLength : 0,
+        stiffness,
+        damping,
+        ...constraintOptions
+      }));
+    }
+
+    for (let i = 1; i < bodies.length; i++) {
+      const bodyA = bodies[i - 1];
+      const bodyB = bodies[i];
+
+      const constraint = new Constraint({
+        bodyA,
+        bodyB,
+        pointA: centerOf(bodyA),
+        pointB: centerOf(bodyB),
+        length: options.linkLength, // Measured from the current layout when not given
+        stiffness,
+        damping,
+        ...constraintOptions
+      });
+
+      composite.addConstraint(constraint);
+    }
+
+    if (pinEnd) {
+      const last = bodies[bodies.length - 1];
+      composite.addConstraint(new Constraint({
+        bodyA: null,
+        bodyB: last,
+        pointA: options.endAnchor ?? last.getCenter(),
+        pointB: centerOf(last),
+        length: options.endAnchor ? options.linkLength : 0,
+        stiffness,
+        damping,
+        ...constraintOptions
+      }));
+    }
+  });
+
+  return composite;
+}
+
+/**
+ * Create a blob - ring of particles with an internal pressure (area) constraint
+ * Squashes on impact and recovers its volume; perimeter constraints keep the outline together
+ * 
+ * With `skin`, one element stands in for the particles (which are hidden): it follows the
+ * ring's centroid and is clipped to a smooth path through the particles after every render.
+ * 
+ * @param world - World instance
+ * @param container - Container element for DOM particles
+ * @param x - Center X position
+ * @param y - Center Y position
+ * @param radius - Radius of the particle ring
+ * @param particleCount - Number of particles around the ring (at least 3)
+ * @param particleRadius - Radius of each particle
+ * @param options - Configuration options
+ * @returns Composite already added to the world (constraints are added on the next frame)
+ */
+export function createBlob(
+  world: World,
+  container: HTMLElement,
+  x: number,
+  y: number,
+  radius: number,
+  particleCount: number,
+  particleRadius: number,
+  options: BlobOptions = {}
+): Composite {
+  const {
+    stiffness = 0.4,
+    damping = 0.1,
+    pressure = 1,
+    areaStiffness = 1,
+    skin = false,
+    particleOptions = {},
+    constraintOptions = {}
+  } = options;
+
+  if (particleCount < 3) {
+    throw new Error('createBlob needs at least 3 particles');
+  }
+
+  const bodies: Body[] = [];
+
+  const composite = new Composite([], [], 'Blob');
+  world.add(composite);
+
+  // Particles of one composite never collide with each other - constraints hold them apart
+  const group = Body.nextGroup(true);
+
+  // Create ring of particles
+  for (let i = 0; i < particleCount; i++) {
+    const angle = (i / particleCount) * Math.PI * 2;
+    const px = x + Math.cos(angle) * radius;
+    const py = y + Math.sin(angle) * radius;
+
+    // Create DOM element
+    const element = document.createElement('div');
+    element.className = 'particle';
+    element.style.position = 'absolute';
+    element.style.width = (particleRadius * 2) + 'px';
+    element.style.height = (particleRadius * 2) + 'px';
+    element.style.borderRadius = '50%';
+    element.style.left = (px - particleRadius) + 'px';
+    element.style.top = (py - particleRadius) + 'px';
+    element.style.pointerEvents = 'none';
+    if (skin) {
+      element.style.visibility = 'hidden'; // The skin is drawn instead
+    }
+    container.appendChild(element);
+    composite.elements.push(element);
+
+    const body = new Body(element, world, {
+      mass: 0.5,
+      radius: particleRadius,
+      friction: 0.05,
+      restitution: 0.1,
+      ...particleOptions,
+      collisionFilter: { group, ...particleOptions.collisionFilter }
+    });
+
+    composite.addBody(body);
+    bodies.push(body);
+  }
+
+  if (skin) {
+    let skinElement: HTMLElement;
+    if (skin === true) {
+      const size = (radius + particleRadius) * 2;
+      skinElement = document.createElement('div');
+      skinElement.className = 'blob-skin';
+      skinElement.style.position = 'absolute';
+      skinElement.style.width = size + 'px';
+      skinElement.style.height = size + 'px';
+      skinElement.style.left = (x - size / 2) + 'px';
+      skinElement.style.top = (y - size / 2) + 'px';
+      skinElement.style.pointerEvents = 'none';
+      container.appendChild(skinElement);
+      composite.elements.push(skinElement);
+    } else {
+      skinElement = skin;
+    }
+    attachBlobSkin(world, composite, bodies, skinElement);
+  }
+
+  // Wait a frame for bodies to initialize before creating constraints
+  composite.requestFrame(() => {
+    // Perimeter constraints (each particle to the next around the ring)
+    for (let i = 0; i < particleCount; i++) {
+      const bodyA = bodies[i];
+      const bodyB = bodies[(i + 1) % particleCount];
+
+      const posA = bodyA.getWorldPosition();
+      const posB = bodyB.getWorldPosition();
+      const dx = posB.x - posA.x;
+      const dy = posB.y - posA.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+
+      const constraint = new Constraint({
+        bodyA,
+        bodyB,
+        length,
+        stiffness,
+        damping,
+        ...constraintOptions
+      });
+
+      composite.addConstraint(constraint);
+    }
+
+    // Internal pressure - holds the area enclosed by the ring
+    composite.addConstraint(new AreaConstraint({
+      bodies,
+      pressure,
+      stiffness: areaStiffness
+    }));
+  });
+
+  return composite;
+}
+
+/**
+ * Keep a skin element over a particle ring: translate it with the ring's centroid and
+ * clip it to a closed quadratic curve through the particle centres
+ */
+function attachBlobSkin(world: World, composite: Composite, bodies: Body[], skin: HTMLElement): void {
+  // Visual centre of a particle element (where it is drawn, whatever its shape)
+  const centerOf = (body: Body) => {
+    const position = body.getWorldPosition();
+    return { x: position.x + body.width / 2, y: position.y + body.height / 2 };
+  };
+  const centroidOf = (points: Array<{ x: number; y: number }>) => ({
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  });
+
+  markOverlay(skin);
+  const worldOrigin = world.worldToClient(0, 0);
+  const skinRect = skin.getBoundingClientRect();
+  const skinOriginX = skinRect.left - worldOrigin.x;
+  const skinOriginY = skinRect.top - worldOrigin.y;
+  const restCentroid = centroidOf(bodies.map(centerOf));
+
+  const update = () => {
+    const points = bodies.map(centerOf);
+    const centroid = centroidOf(points);
+    const offsetX = centroid.x - restCentroid.x;
+    const offsetY = centroid.y - restCentroid.y;
+
+    // Points relative to the skin's (translated) top-left corner
+    const local = points.map(point => ({
+      x: point.x - skinOriginX - offsetX,
+      y: point.y - skinOriginY - offsetY
+    }));
+    const midpoint = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+      `${((a.x + b.x) / 2).toFixed(1)} ${((a.y + b.y) / 2).toFixed(1)}`;
+
+    // Curve through the midpoints of each edge, using particles as control points
+    let path = `M ${midpoint(local[local.length - 1], local[0])}`;
+    for (let i = 0; i < local.length; i++) {
+      const next = local[(i + 1) % local.length];
+      path += ` Q ${local[i].x.toFixed(1)} ${local[i].y.toFixed(1)} ${midpoint(local[i], next)}`;
+    }
+    path += ' Z';
+
+    skin.style.transform = `translate(${offsetX}px, ${offsetY}px)`;
+    skin.style.setProperty('clip-path', `path('${path}')`);
+  };
+
+  update();
+  const unsubscribe = world.on('afterRender', () => {
+    // Stop following once the blob has been removed from the world
+    if (!composite.world) {
+      unsubscribe();
+      return;
+    }
+    update();
+  });
 }
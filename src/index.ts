@@ -3,7 +3,66 @@
  * Matches original demo behavior exactly
  */
 
-export { Body, type BodyConfig } from './Body.js';
-export { World, type WorldConfig } from './World.js';
+export { Body, type BodyConfig, type BodyShape, type CollisionFilter, type ReturnHomeOptions, type BodyDestroyOptions } from './Body.js';
+export { World, type WorldConfig, type WorldDestroyOptions, type ConstraintOrder, type ResizeMode } from './World.js';
+export {
+  type WorldBounds,
+  type RectBounds,
+  type CircleBounds,
+  type PolygonBounds,
+  type BoundsSide,
+  type BoundsMaterial
+} from './bounds.js';
+export { Obstacle, type ObstacleConfig } from './Obstacle.js';
+export { ElementColliders, markOverlay, type ElementCollidersOptions } from './ElementColliders.js';
 export { Constraint, type ConstraintConfig } from './Constraint.js';
-export { createSoftBody, createCloth, type SoftBodyOptions, type ClothOptions } from './composites.js';
+export { AreaConstraint, type AreaConstraintConfig } from './AreaConstraint.js';
+export {
+  RangeJoint,
+  RopeJoint,
+  RevoluteJoint,
+  PrismaticJoint,
+  Spring,
+  Motor,
+  type RangeJointConfig,
+  type RopeJointConfig,
+  type RevoluteJointConfig,
+  type PrismaticJointConfig,
+  type SpringConfig,
+  type MotorConfig
+} from './joints.js';
+export { type Joint } from './Joint.js';
+export { Composite, type CompositeBodyProperties, type CompositeConstraintProperties } from './Composite.js';
+export { MeshRenderer, type MeshRendererOptions, type MeshRenderMode } from './MeshRenderer.js';
+export { DragController, type DragControllerOptions } from './DragController.js';
+export {
+  EventEmitter,
+  type EventHandler,
+  type WorldEvents,
+  type BodyEvents,
+  type CollisionEvent,
+  type BodyCollisionEvent,
+  type StepEvent,
+  type RenderEvent,
+  type SleepEvent,
+  type SensorEvent,
+  type ConstraintBreakEvent,
+  type ResizeEvent,
+  type ReturnedHomeEvent,
+  type BodyDragEvent,
+  type DestroyEvent
+} from './Events.js';
+export { getContact, getPolygonContact, canCollide, type Contact } from './collision.js';
+export { getTimeOfImpact, type Pose } from './ccd.js';
+export { ContactSolver, type ContactMaterial, type SolverContact } from './ContactSolver.js';
+export { SpatialHashBroadPhase, BruteForceBroadPhase, type BroadPhase } from './BroadPhase.js';
+export {
+  createSoftBody,
+  createCloth,
+  createChain,
+  createBlob,
+  type SoftBodyOptions,
+  type ClothOptions,
+  type ChainOptions,
+  type BlobOptions
+} from './composites.js';
@@ -0,0 +1,523 @@
+/**
+ * Joints - Joint types beyond the distance/pin Constraint
+ * Based on the Box2D joint family, solved position-based like Constraint (Gauss-Seidel)
+ *
+ * - RangeJoint: keeps the distance between min and max, slack in between
+ * - RopeJoint: only acts when stretched past its length (a range with no minimum)
+ * - RevoluteJoint: pin joint with limits on the relative angle of the bodies
+ * - PrismaticJoint: keeps a body on an axis (a slider on a track), with optional travel limits
+ *
+ * Force-based joints add to Body.fx/fy in applyForces(), before integration, instead of moving
+ * bodies in solve(). Their feel is independent of constraintIterations and frame rate:
+ * - Spring: Hooke's law spring with a damper between two attachment points
+ * - Motor: drives a body towards a target position or velocity with a maximum force
+ */
+
+import type { Body } from './Body.js';
+import type { Joint } from './Joint.js';
+import { Constraint, type ConstraintConfig } from './Constraint.js';
+
+export interface RangeJointConfig extends Omit<ConstraintConfig, 'length'> {
+  minLength?: number; // default: 0
+  maxLength?: number; // default: current distance
+}
+
+export interface RopeJointConfig extends Omit<ConstraintConfig, 'length'> {
+  length?: number; // Maximum length (default: current distance)
+}
+
+export interface RevoluteJointConfig extends Omit<ConstraintConfig, 'length'> {
+  lowerAngle?: number; // Lowest relative angle in radians (default: no limit)
+  upperAngle?: number; // Highest relative angle in radians (default: no limit)
+  referenceAngle?: number; // Relative angle that counts as 0 (default: current relative angle)
+}
+
+export interface PrismaticJointConfig {
+  bodyA: Body | null; // null = track fixed in the world
+  bodyB: Body;        // The body sliding along the track
+  pointA?: { x: number; y: number }; // Track origin: world point if bodyA=null, else local to bodyA (default: where pointB starts)
+  pointB?: { x: number; y: number }; // Local point on bodyB kept on the track (default: { x: 0, y: 0 })
+  axis?: { x: number; y: number };   // Track direction, rotates with bodyA (default: horizontal)
+  lowerLimit?: number; // Lowest travel along the axis from pointA in px (default: no limit)
+  upperLimit?: number; // Highest travel along the axis from pointA in px (default: no limit)
+  lockRotation?: boolean; // Keep bodyB's angle relative to bodyA (default: true)
+  stiffness?: number; // 0-1 (default: 1)
+  damping?: number;   // 0-1, damps motion off the axis (default: 0)
+  priority?: number;  // Higher is solved earlier in each pass (default: 0)
+}
+
+export interface SpringConfig {
+  bodyA: Body | null; // null = fixed world point
+  bodyB: Body;
+  pointA?: { x: number; y: number }; // World point if bodyA=null, else local to bodyA
+  pointB?: { x: number; y: number }; // Local point on bodyB (default: { x: 0, y: 0 })
+  length?: number;    // Rest length in px (default: current distance)
+  stiffness?: number; // Spring constant k: force per px of stretch (default: 100)
+  damping?: number;   // Damping coefficient c: force per px/s of stretching speed (default: 0)
+}
+
+export interface MotorConfig {
+  body: Body;
+  target?: { x: number; y: number } | null;         // World position to reach (position mode)
+  targetVelocity?: { x: number; y: number } | null; // Velocity in px/s to hold (velocity mode)
+  maxForce?: number;    // Largest force the motor applies (default: no limit)
+  frequency?: number;   // Position mode: how fast it closes in, in Hz (default: 2)
+  dampingRatio?: number; // Position mode: 1 = arrive without overshooting (default: 1)
+}
+
+/**
+ * Held bodies are never moved by a joint: static, dragged, sleeping or disabled
+ */
+function isHeld(body: Body | null): boolean {
+  return !body || body.isStatic || body.isDragged || body.isSleeping || !body.enabled;
+}
+
+/**
+ * RangeJoint - Distance between the attachment points stays within [minLength, maxLength]
+ */
+export class RangeJoint extends Constraint {
+  minLength: number;
+  maxLength: number;
+
+  constructor(config: RangeJointConfig) {
+    super({ ...config, length: undefined });
+    this.minLength = config.minLength ?? 0;
+    this.maxLength = config.maxLength ?? this.length;
+    this.length = this.maxLength;
+  }
+
+  /**
+   * Only corrects when the distance is outside the range, towards the bound it crossed
+   */
+  solve(timeScale: number): void {
+    const worldA = this.getWorldPointA();
+    const worldB = this.getWorldPointB();
+    const distance = Math.sqrt((worldB.x - worldA.x) ** 2 + (worldB.y - worldA.y) ** 2);
+    if (distance >= this.minLength && distance <= this.maxLength) return;
+
+    this.length = distance < this.minLength ? this.minLength : this.maxLength;
+    super.solve(timeScale);
+  }
+}
+
+/**
+ * RopeJoint - Slack until pulled taut, never longer than its length
+ */
+export class RopeJoint extends RangeJoint {
+  constructor(config: RopeJointConfig) {
+    const { length, ...rest } = config;
+    super({ ...rest, minLength: 0, maxLength: length });
+  }
+}
+
+/**
+ * RevoluteJoint - Bodies share a pivot and turn freely about it within angle limits
+ * The pivot uses pin semantics (length 0 keeps the current distance, like Constraint)
+ */
+export class RevoluteJoint extends Constraint {
+  lowerAngle: number;
+  upperAngle: number;
+  referenceAngle: number;
+
+  constructor(config: RevoluteJointConfig) {
+    super({ ...config, length: 0 });
+    this.lowerAngle = config.lowerAngle ?? -Infinity;
+    this.upperAngle = config.upperAngle ?? Infinity;
+    this.referenceAngle = config.referenceAngle ?? this.getRelativeAngle();
+  }
+
+  /**
+   * Angle of bodyB relative to bodyA (or to the world when pinned to a point)
+   */
+  getRelativeAngle(): number {
+    return this.bodyB.angle - (this.bodyA?.angle ?? 0);
+  }
+
+  solve(timeScale: number): void {
+    super.solve(timeScale);
+    if (this.broken) return;
+
+    const angle = this.getRelativeAngle() - this.referenceAngle;
+    const limited = Math.max(this.lowerAngle, Math.min(this.upperAngle, angle));
+    if (angle === limited) return;
+
+    // Split the angular correction by inverse inertia (held bodies don't turn)
+    const inverseInertiaA = isHeld(this.bodyA) ? 0 : this.bodyA!.inverseInertia;
+    const inverseInertiaB = isHeld(this.bodyB) ? 0 : this.bodyB.inverseInertia;
+    const inverseInertiaTotal = inverseInertiaA + inverseInertiaB;
+    if (inverseInertiaTotal === 0) return;
+
+    const correction = (angle - limited) * Math.min(1, this.stiffness * timeScale);
+    if (this.bodyA && inverseInertiaA > 0) {
+      this.bodyA.angle += correction * inverseInertiaA / inverseInertiaTotal;
+    }
+    if (inverseInertiaB > 0) {
+      this.bodyB.angle -= correction * inverseInertiaB / inverseInertiaTotal;
+    }
+  }
+}
+
+/**
+ * PrismaticJoint - bodyB slides along an axis through pointA
+ * Offsets across the axis are removed each pass; travel along it is free between the limits
+ */
+export class PrismaticJoint implements Joint {
+  bodyA: Body | null;
+  bodyB: Body;
+  pointA: { x: number; y: number };
+  pointB: { x: number; y: number };
+  axis: { x: number; y: number }; // Unit length
+  lowerLimit: number;
+  upperLimit: number;
+  lockRotation: boolean;
+  referenceAngle: number;
+  stiffness: number;
+  damping: number;
+  priority: number;
+
+  constructor(config: PrismaticJointConfig) {
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.pointB = config.pointB ?? { x: 0, y: 0 };
+
+    // Default track origin: where the slider starts
+    if (config.pointA) {
+      this.pointA = config.pointA;
+    } else {
+      const start = this.bodyB.getWorldPoint(this.pointB);
+      this.pointA = this.bodyA ? this.bodyA.getLocalPoint(start) : start;
+    }
+
+    const axis = config.axis ?? { x: 1, y: 0 };
+    const axisLength = Math.sqrt(axis.x * axis.x + axis.y * axis.y) || 1;
+    this.axis = { x: axis.x / axisLength, y: axis.y / axisLength };
+    this.lowerLimit = config.lowerLimit ?? -Infinity;
+    this.upperLimit = config.upperLimit ?? Infinity;
+    this.lockRotation = config.lockRotation ?? true;
+    this.referenceAngle = this.bodyB.angle - (this.bodyA?.angle ?? 0);
+    this.stiffness = config.stiffness ?? 1;
+    this.damping = config.damping ?? 0;
+    this.priority = config.priority ?? 0;
+  }
+
+  getBodies(): Body[] {
+    return this.bodyA ? [this.bodyA, this.bodyB] : [this.bodyB];
+  }
+
+  isFixed(): boolean {
+    return !this.bodyA || this.bodyA.isStatic || this.bodyB.isStatic;
+  }
+
+  getWorldPointA(): { x: number; y: number } {
+    return this.bodyA ? this.bodyA.getWorldPoint(this.pointA) : { x: this.pointA.x, y: this.pointA.y };
+  }
+
+  getWorldPointB(): { x: number; y: number } {
+    return this.bodyB.getWorldPoint(this.pointB);
+  }
+
+  /**
+   * Track direction in world space (turns with bodyA)
+   */
+  getWorldAxis(): { x: number; y: number } {
+    const angle = this.bodyA?.angle ?? 0;
+    if (angle === 0) return { x: this.axis.x, y: this.axis.y };
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { x: this.axis.x * cos - this.axis.y * sin, y: this.axis.x * sin + this.axis.y * cos };
+  }
+
+  /**
+   * Current travel of pointB along the axis from pointA, in px
+   */
+  getTranslation(): number {
+    const worldA = this.getWorldPointA();
+    const worldB = this.getWorldPointB();
+    const axis = this.getWorldAxis();
+    return (worldB.x - worldA.x) * axis.x + (worldB.y - worldA.y) * axis.y;
+  }
+
+  solve(timeScale: number): void {
+    const heldA = isHeld(this.bodyA);
+    const heldB = isHeld(this.bodyB);
+    if (heldA && heldB) return;
+
+    const worldA = this.getWorldPointA();
+    const worldB = this.getWorldPointB();
+    const axis = this.getWorldAxis();
+    const normal = { x: -axis.y, y: axis.x };
+    const dx = worldB.x - worldA.x;
+    const dy = worldB.y - worldA.y;
+
+    // Off-axis error always; along-axis error only past a limit
+    const offset = dx * normal.x + dy * normal.y;
+    const travel = dx * axis.x + dy * axis.y;
+    const limited = Math.max(this.lowerLimit, Math.min(this.upperLimit, travel));
+    const stiffness = Math.min(1, this.stiffness * timeScale);
+    const correctionX = (-offset * normal.x + (limited - travel) * axis.x) * stiffness;
+    const correctionY = (-offset * normal.y + (limited - travel) * axis.y) * stiffness;
+
+    const inverseMassA = heldA ? 0 : this.bodyA!.inverseMass;
+    const inverseMassB = heldB ? 0 : this.bodyB.inverseMass;
+    const inverseMassTotal = inverseMassA + inverseMassB;
+
+    if (inverseMassTotal > 0) {
+      const shareA = inverseMassA / inverseMassTotal;
+      const shareB = inverseMassB / inverseMassTotal;
+
+      // Damping removes relative velocity across the axis (Verlet: via the previous position)
+      let dampingX = 0;
+      let dampingY = 0;
+      if (this.damping > 0) {
+        const velocityX = (this.bodyB.x - this.bodyB.prevX) - (this.bodyA ? this.bodyA.x - this.bodyA.prevX : 0);
+        const velocityY = (this.bodyB.y - this.bodyB.prevY) - (this.bodyA ? this.bodyA.y - this.bodyA.prevY : 0);
+        const normalVelocity = velocityX * normal.x + velocityY * normal.y;
+        dampingX = normal.x * normalVelocity * this.damping * timeScale;
+        dampingY = normal.y * normalVelocity * this.damping * timeScale;
+      }
+
+      if (this.bodyA && shareA > 0) {
+        this.bodyA.x -= correctionX * shareA;
+        this.bodyA.y -= correctionY * shareA;
+        this.bodyA.prevX -= dampingX * shareA;
+        this.bodyA.prevY -= dampingY * shareA;
+      }
+      if (shareB > 0) {
+        this.bodyB.x += correctionX * shareB;
+        this.bodyB.y += correctionY * shareB;
+        this.bodyB.prevX += dampingX * shareB;
+        this.bodyB.prevY += dampingY * shareB;
+      }
+    }
+
+    if (this.lockRotation) {
+      const inverseInertiaA = heldA ? 0 : this.bodyA!.inverseInertia;
+      const inverseInertiaB = heldB ? 0 : this.bodyB.inverseInertia;
+      const inverseInertiaTotal = inverseInertiaA + inverseInertiaB;
+      if (inverseInertiaTotal > 0) {
+        const angleError = this.bodyB.angle - (this.bodyA?.angle ?? 0) - this.referenceAngle;
+        const correction = angleError * stiffness;
+        if (this.bodyA && inverseInertiaA > 0) {
+          this.bodyA.angle += correction * inverseInertiaA / inverseInertiaTotal;
+        }
+        if (inverseInertiaB > 0) {
+          this.bodyB.angle -= correction * inverseInertiaB / inverseInertiaTotal;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Velocity of a body in px/s (Verlet keeps the last step's displacement)
+ */
+function getVelocity(body: Body): { x: number; y: number } {
+  return { x: (body.x - body.prevX) / body.deltaTime, y: (body.y - body.prevY) / body.deltaTime };
+}
+
+/**
+ * Spring - Hooke's law: F = -k·(length - rest) - c·(stretching speed), along the spring
+ * Acts through forces, so k and c mean the same whatever the iteration count or frame rate
+ */
+export class Spring implements Joint {
+  bodyA: Body | null;
+  bodyB: Body;
+  pointA: { x: number; y: number };
+  pointB: { x: number; y: number };
+  length: number;
+  stiffness: number;
+  damping: number;
+
+  constructor(config: SpringConfig) {
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.pointA = config.pointA ?? { x: 0, y: 0 };
+    this.pointB = config.pointB ?? { x: 0, y: 0 };
+    this.stiffness = config.stiffness ?? 100;
+    this.damping = config.damping ?? 0;
+
+    if (config.length === undefined) {
+      const worldA = this.getWorldPointA();
+      const worldB = this.getWorldPointB();
+      this.length = Math.sqrt((worldB.x - worldA.x) ** 2 + (worldB.y - worldA.y) ** 2);
+    } else {
+      this.length = config.length;
+    }
+  }
+
+  getBodies(): Body[] {
+    return this.bodyA ? [this.bodyA, this.bodyB] : [this.bodyB];
+  }
+
+  isFixed(): boolean {
+    return !this.bodyA || this.bodyA.isStatic || this.bodyB.isStatic;
+  }
+
+  getWorldPointA(): { x: number; y: number } {
+    return this.bodyA ? this.bodyA.getWorldPoint(this.pointA) : { x: this.pointA.x, y: this.pointA.y };
+  }
+
+  getWorldPointB(): { x: number; y: number } {
+    return this.bodyB.getWorldPoint(this.pointB);
+  }
+
+  /**
+   * Current spring force on bodyB (bodyA gets the opposite)
+   */
+  getForce(): { x: number; y: number } {
+    const worldA = this.getWorldPointA();
+    const worldB = this.getWorldPointB();
+    const dx = worldB.x - worldA.x;
+    const dy = worldB.y - worldA.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance === 0) return { x: 0, y: 0 };
+
+    const normalX = dx / distance;
+    const normalY = dy / distance;
+    const velocityA = this.bodyA ? getVelocity(this.bodyA) : { x: 0, y: 0 };
+    const velocityB = getVelocity(this.bodyB);
+    const stretchSpeed = (velocityB.x - velocityA.x) * normalX + (velocityB.y - velocityA.y) * normalY;
+
+    const magnitude = -this.stiffness * (distance - this.length) - this.damping * stretchSpeed;
+    return { x: normalX * magnitude, y: normalY * magnitude };
+  }
+
+  /**
+   * Add the spring force to both bodies before they integrate
+   * Sleeping bodies are left alone (like gravity) - stretching the spring, a contact or drag wakes them
+   */
+  applyForces(_dt: number): void {
+    const force = this.getForce();
+    const worldA = this.getWorldPointA();
+    const worldB = this.getWorldPointB();
+    if (!isHeld(this.bodyB)) {
+      addForce(this.bodyB, force.x, force.y, worldB);
+    }
+    if (this.bodyA && !isHeld(this.bodyA)) {
+      addForce(this.bodyA, -force.x, -force.y, worldA);
+    }
+  }
+
+  solve(_timeScale: number): void {
+    // Force-based - nothing to correct positionally
+  }
+}
+
+/**
+ * Motor - Pushes a body towards a target with a limited force
+ * Position mode is a damped spring to the target (frequency / damping ratio, independent of mass);
+ * velocity mode applies whatever force reaches the target velocity this step.
+ */
+export class Motor implements Joint {
+  body: Body;
+  maxForce: number;
+  frequency: number;
+  dampingRatio: number;
+
+  private _target: { x: number; y: number } | null;
+  private _targetVelocity: { x: number; y: number } | null;
+
+  private static readonly _minForce = 0.001; // Below this the motor lets the body rest (and sleep)
+
+  constructor(config: MotorConfig) {
+    this.body = config.body;
+    this._target = config.target ?? null;
+    this._targetVelocity = config.targetVelocity ?? null;
+    this.maxForce = config.maxForce ?? Infinity;
+    this.frequency = config.frequency ?? 2;
+    this.dampingRatio = config.dampingRatio ?? 1;
+  }
+
+  /**
+   * World position the body is driven to - setting it wakes the body
+   */
+  get target(): { x: number; y: number } | null {
+    return this._target;
+  }
+
+  set target(target: { x: number; y: number } | null) {
+    this._target = target;
+    this._wake();
+  }
+
+  /**
+   * Velocity (px/s) the body is driven to when there is no target - setting it wakes the body
+   */
+  get targetVelocity(): { x: number; y: number } | null {
+    return this._targetVelocity;
+  }
+
+  set targetVelocity(targetVelocity: { x: number; y: number } | null) {
+    this._targetVelocity = targetVelocity;
+    this._wake();
+  }
+
+  getBodies(): Body[] {
+    return [this.body];
+  }
+
+  isFixed(): boolean {
+    return true;
+  }
+
+  /**
+   * Force the motor applies this step (clamped to maxForce)
+   */
+  getForce(dt: number): { x: number; y: number } {
+    const body = this.body;
+    const velocity = getVelocity(body);
+    let forceX = 0;
+    let forceY = 0;
+
+    if (this.target) {
+      // Damped spring to the target: k = m·ω², c = 2·ζ·m·ω
+      const omega = 2 * Math.PI * this.frequency;
+      const stiffness = body.mass * omega * omega;
+      const damping = 2 * this.dampingRatio * body.mass * omega;
+      const position = body.getWorldPosition();
+      forceX = stiffness * (this.target.x - position.x) - damping * velocity.x;
+      forceY = stiffness * (this.target.y - position.y) - damping * velocity.y;
+    } else if (this.targetVelocity) {
+      // Also cancel forces already accumulated this step (gravity runs first)
+      forceX = body.mass * (this.targetVelocity.x - velocity.x) / dt - body.fx;
+      forceY = body.mass * (this.targetVelocity.y - velocity.y) / dt - body.fy;
+    }
+
+    const magnitude = Math.sqrt(forceX * forceX + forceY * forceY);
+    if (magnitude > this.maxForce) {
+      forceX *= this.maxForce / magnitude;
+      forceY *= this.maxForce / magnitude;
+    }
+    return { x: forceX, y: forceY };
+  }
+
+  /**
+   * Wakes the body while it still has somewhere to go
+   */
+  applyForces(dt: number): void {
+    if (this.body.isStatic || this.body.isDragged || !this.body.enabled) return;
+    const force = this.getForce(dt);
+    if (Math.abs(force.x) < Motor._minForce && Math.abs(force.y) < Motor._minForce) return;
+    this.body.applyForce(force.x, force.y);
+  }
+
+  solve(_timeScale: number): void {
+    // Force-based - nothing to correct positionally
+  }
+
+  private _wake(): void {
+    if (this.body.isStatic || !this.body.enabled) return;
+    this.body.setSleeping(false);
+    this.body.world.resume(); // A paused loop would never step the motor again
+  }
+}
+
+/**
+ * Accumulate a force at a world point without waking the body (applyForce wakes it)
+ */
+function addForce(body: Body, forceX: number, forceY: number, point: { x: number; y: number }): void {
+  body.fx += forceX;
+  body.fy += forceY;
+  const center = body.getCenter();
+  body.torque += (point.x - center.x) * forceY - (point.y - center.y) * forceX;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World.js';
+import type { Body, BodyConfig } from '../src/Body.js';
+import { AreaConstraint } from '../src/AreaConstraint.js';
+import { createBody } from './helpers.js';
+
+describe('AreaConstraint', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  // 100 × 100 square, corners in order
+  function createSquare(config: BodyConfig = {}): Body[] {
+    return [
+      createBody(world, 100, 100, 10, 10, config),
+      createBody(world, 200, 100, 10, 10, config),
+      createBody(world, 200, 200, 10, 10, config),
+      createBody(world, 100, 200, 10, 10, config)
+    ];
+  }
+
+  it('should measure its rest area from the ring', () => {
+    const constraint = new AreaConstraint({ bodies: createSquare() });
+
+    expect(constraint.area).toBe(10000);
+    expect(constraint.getArea()).toBe(10000);
+    expect(constraint.isFixed()).toBe(false);
+  });
+
+  it('should need at least three bodies', () => {
+    const bodies = createSquare().slice(0, 2);
+    expect(() => new AreaConstraint({ bodies })).toThrow();
+  });
+
+  it('should push a squashed ring back towards its rest area', () => {
+    const bodies = createSquare();
+    const constraint = new AreaConstraint({ bodies });
+    world.registerConstraint(constraint);
+
+    // Squash the bottom edge upwards to half the area
+    bodies[2].y -= 50;
+    bodies[3].y -= 50;
+    bodies[2].prevY = bodies[2].y;
+    bodies[3].prevY = bodies[3].y;
+
+    for (let i = 0; i < 10; i++) {
+      world.step();
+    }
+
+    expect(constraint.getArea()).toBeGreaterThan(9000);
+  });
+
+  it('should recover whichever way the ring winds', () => {
+    const bodies = createSquare().reverse();
+    const constraint = new AreaConstraint({ bodies });
+    world.registerConstraint(constraint);
+    bodies[0].x -= 50; // Bottom-left corner pushed in
+    bodies[0].prevX = bodies[0].x;
+
+    for (let i = 0; i < 10; i++) {
+      world.step();
+    }
+
+    expect(constraint.getSignedArea()).toBeLessThan(0);
+    expect(constraint.getArea()).toBeGreaterThan(9500);
+  });
+
+  it('should inflate with pressure above 1', () => {
+    const constraint = new AreaConstraint({ bodies: createSquare(), pressure: 1.5 });
+    world.registerConstraint(constraint);
+
+    for (let i = 0; i < 10; i++) {
+      world.step();
+    }
+
+    expect(constraint.getArea()).toBeGreaterThan(14000);
+  });
+
+  it('should leave static bodies where they are', () => {
+    const bodies = createSquare();
+    bodies[0].setStatic(true);
+    const constraint = new AreaConstraint({ bodies, area: 20000 });
+
+    constraint.solve(1);
+
+    expect(bodies[0].x).toBe(0);
+    expect(bodies[0].y).toBe(0);
+    expect(constraint.getArea()).toBeGreaterThan(10000);
+  });
+});
@@ -93,6 +93,15 @@ describe('Body', () => {
       expect(body.originY).toBe(100); // elemRect.top - worldRect.top
     });
 
+    it('should read box size from the bounding rect', () => {
+      const body = new Body(element, world, { shape: 'box' });
+      expect(body.shape).toBe('box');
+      expect(body.width).toBe(50);
+      expect(body.height).toBe(50);
+      expect(body.getCenter()).toEqual({ x: 125, y: 125 });
+      expect(body.getBounds()).toEqual({ minX: 100, minY: 100, maxX: 150, maxY: 150 });
+    });
+
     it('should set display to inline-block if inline', () => {
       element.style.display = 'inline';
       const body = new Body(element, world);
@@ -124,6 +133,49 @@ describe('Body', () => {
     });
   });
 
+  describe('rotation', () => {
+    it('should derive inertia from shape and mass', () => {
+      const circle = new Body(element, world, { mass: 2 });
+      expect(circle.angle).toBe(0);
+      expect(circle.inertia).toBe(0.5 * 2 * 25 * 25);
+
+      const box = new Body(element, world, { shape: 'box', mass: 3 });
+      expect(box.inertia).toBe(3 * (50 * 50 + 50 * 50) / 12);
+      expect(box.inverseInertia).toBe(1 / box.inertia);
+    });
+
+    it('should never rotate with infinite inertia or when static', () => {
+      expect(new Body(element, world, { inertia: Infinity }).inverseInertia).toBe(0);
+      expect(new Body(element, world, { isStatic: true }).inverseInertia).toBe(0);
+    });
+
+    it('should accumulate torque from off-centre forces', () => {
+      const body = new Body(element, world, { shape: 'box' });
+      // Centre is (125, 125); push down on the right edge
+      body.applyForce(0, 10, { x: 150, y: 125 });
+      expect(body.fy).toBe(10);
+      expect(body.torque).toBe(250);
+    });
+
+    it('should integrate torque into angle', () => {
+      const body = new Body(element, world, { shape: 'box' });
+      body.applyTorque(1000000);
+      body.integrate(1/60, world);
+
+      expect(body.angle).toBeGreaterThan(0);
+      expect(body.prevAngle).toBe(0);
+      expect(body.torque).toBe(0);
+    });
+
+    it('should rotate local points about the centre', () => {
+      const body = new Body(element, world, { shape: 'box' });
+      body.angle = Math.PI / 2;
+      const corner = body.getWorldPoint({ x: 0, y: 0 }); // Top-left corner
+      expect(corner.x).toBeCloseTo(150);
+      expect(corner.y).toBeCloseTo(100);
+    });
+  });
+
   describe('integrate', () => {
     it('should integrate physics', () => {
       const body = new Body(element, world);
@@ -192,5 +244,30 @@ describe('Body', () => {
       
       expect(element.style.transform).toBe('translate(10px, 20px)');
     });
+
+    it('should apply rotation', () => {
+      const body = new Body(element, world);
+      body.x = 10;
+      body.y = 20;
+      body.angle = 0.5;
+
+      body.render();
+
+      expect(element.style.transform).toBe('translate(10px, 20px) rotate(0.5rad)');
+    });
+
+    it('should turn elements about the physics centre', () => {
+      const circle = new Body(element, world);
+      circle.angle = 0.5;
+      circle.render();
+      expect(element.style.transformOrigin).toMatch(/^0(px)? 0(px)?$/); // Top-left corner
+
+      const boxElement = document.createElement('div');
+      container.appendChild(boxElement);
+      const box = new Body(boxElement, world, { shape: 'box' });
+      box.angle = 0.5;
+      box.render();
+      expect(boxElement.style.transformOrigin).toBe(''); // Default: the middle
+    });
   });
 });
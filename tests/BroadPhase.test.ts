@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World.js';
+import type { Body } from '../src/Body.js';
+import { SpatialHashBroadPhase, BruteForceBroadPhase } from '../src/BroadPhase.js';
+import { createBody } from './helpers.js';
+
+describe('BroadPhase', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container);
+  });
+
+  const pairIds = (bodies: Body[], pairs: Array<[Body, Body]>) =>
+    pairs.map(([a, b]) => `${bodies.indexOf(a)}-${bodies.indexOf(b)}`);
+
+  it('should default to a spatial hash', () => {
+    expect(world.broadPhase).toBeInstanceOf(SpatialHashBroadPhase);
+  });
+
+  it('should return the same pairs as brute force, in the same order', () => {
+    // Deterministic pseudo-random layout with a mix of sizes
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    for (let i = 0; i < 80; i++) {
+      const body = createBody(world, random() * 760, random() * 560, 10 + random() * 30, 10 + random() * 30);
+      body.prevX = (random() - 0.5) * 20;
+      body.prevY = (random() - 0.5) * 20;
+    }
+
+    const grid = new SpatialHashBroadPhase().getPairs(world.bodies);
+    const brute = new BruteForceBroadPhase().getPairs(world.bodies);
+
+    expect(grid.length).toBeGreaterThan(0);
+    expect(pairIds(world.bodies, grid)).toEqual(pairIds(world.bodies, brute));
+  });
+
+  it('should not miss pairs between bodies with radius over 50px', () => {
+    const big = createBody(world, 100, 100, 240, 240); // radius 120
+    const small = createBody(world, 220, 100, 20, 20); // 120px away, inside the 130px radius sum
+
+    const pairs = world.broadPhase.getPairs(world.bodies);
+    expect(pairs).toEqual([[big, small]]);
+  });
+
+  it('should skip distant bodies', () => {
+    createBody(world, 0, 0, 20, 20);
+    createBody(world, 500, 500, 20, 20);
+
+    expect(world.broadPhase.getPairs(world.bodies)).toEqual([]);
+  });
+
+  it('should derive cell size from body radii unless fixed', () => {
+    createBody(world, 0, 0, 20, 20);  // radius 10
+    createBody(world, 100, 0, 60, 60); // radius 30
+
+    expect(new SpatialHashBroadPhase().getCellSize(world.bodies)).toBe(40);
+    expect(new SpatialHashBroadPhase(64).getCellSize(world.bodies)).toBe(64);
+  });
+
+  it('should resolve collisions through a custom broad phase', () => {
+    world.broadPhase = new BruteForceBroadPhase();
+    const a = createBody(world, 100, 100, 40, 40);
+    const b = createBody(world, 130, 100, 40, 40);
+
+    world.step();
+
+    const dx = b.getWorldPosition().x - a.getWorldPosition().x;
+    expect(Math.abs(dx)).toBeGreaterThan(30);
+  });
+});
@@ -0,0 +1,344 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { Body, type BodyConfig } from '../src/Body.js';
+import { Constraint } from '../src/Constraint.js';
+import { Composite } from '../src/Composite.js';
+import { createSoftBody, createChain, createBlob } from '../src/composites.js';
+import { AreaConstraint } from '../src/AreaConstraint.js';
+
+describe('Composite', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  function createElement(x: number, y: number): HTMLElement {
+    const element = document.createElement('div');
+    container.appendChild(element);
+    element.getBoundingClientRect = () => ({
+      left: x, top: y, right: x + 20, bottom: y + 20,
+      width: 20, height: 20, x, y, toJSON: () => {}
+    });
+    return element;
+  }
+
+  function createBody(x: number, y: number, config: BodyConfig = {}): Body {
+    return new Body(createElement(x, y), world, config);
+  }
+
+  function createPair(): Composite {
+    const a = createBody(100, 100);
+    const b = createBody(200, 100);
+    return new Composite([a, b], [new Constraint({ bodyA: a, bodyB: b })], 'pair');
+  }
+
+  describe('world.add / world.remove', () => {
+    it('should register every member, nested ones included', () => {
+      const parent = createPair();
+      const child = createPair();
+      parent.addComposite(child);
+
+      world.add(parent);
+
+      expect(world.bodies).toHaveLength(4);
+      expect(world.constraints).toHaveLength(2);
+      expect(world.composites).toEqual([parent]);
+      expect(child.world).toBe(world);
+    });
+
+    it('should register members added after the composite joined the world', () => {
+      const composite = new Composite();
+      world.add(composite);
+
+      const body = createBody(100, 100);
+      composite.addBody(body);
+      composite.addComposite(createPair());
+
+      expect(world.bodies).toHaveLength(3);
+      expect(world.composites).toEqual([composite]);
+    });
+
+    it('should remove members and generated elements', () => {
+      const composite = createPair();
+      const generated = document.createElement('div');
+      container.appendChild(generated);
+      composite.elements.push(generated);
+      world.add(composite);
+
+      world.remove(composite);
+
+      expect(world.bodies).toHaveLength(0);
+      expect(world.constraints).toHaveLength(0);
+      expect(world.composites).toHaveLength(0);
+      expect(generated.isConnected).toBe(false);
+      expect(composite.world).toBeNull();
+    });
+
+    it('should detach a nested composite from its parent when removed', () => {
+      const parent = createPair();
+      const child = createPair();
+      parent.addComposite(child);
+      world.add(parent);
+
+      world.remove(child);
+
+      expect(parent.composites).toHaveLength(0);
+      expect(child.parent).toBeNull();
+      expect(world.bodies).toHaveLength(2);
+    });
+
+    it('should refuse to nest a composite inside itself', () => {
+      const parent = new Composite();
+      const child = new Composite();
+      parent.addComposite(child);
+
+      expect(() => child.addComposite(parent)).toThrow();
+    });
+  });
+
+  describe('transforms', () => {
+    it('should translate every body and keep velocities', () => {
+      const composite = createPair();
+      const [a, b] = composite.bodies;
+      a.prevX = -3;
+
+      composite.translate(10, 20);
+
+      expect(a.x).toBe(10);
+      expect(b.y).toBe(20);
+      expect(a.x - a.prevX).toBe(3);
+    });
+
+    it('should rotate about the centroid', () => {
+      const composite = createPair(); // Centres (100, 100) and (200, 100)
+
+      composite.rotate(Math.PI / 2);
+
+      const [a, b] = composite.bodies;
+      expect(a.getCenter().x).toBeCloseTo(150);
+      expect(a.getCenter().y).toBeCloseTo(50);
+      expect(b.getCenter().y).toBeCloseTo(150);
+      expect(a.angle).toBeCloseTo(Math.PI / 2);
+    });
+
+    it('should scale positions and internal constraint lengths', () => {
+      const composite = createPair();
+
+      composite.scale(2);
+
+      const [a, b] = composite.bodies;
+      expect(a.getCenter().x).toBeCloseTo(50);
+      expect(b.getCenter().x).toBeCloseTo(250);
+      expect(composite.constraints[0].length).toBeCloseTo(200);
+    });
+  });
+
+  describe('queries', () => {
+    it('should report bounds and mass-weighted centroid', () => {
+      const a = createBody(100, 100, { mass: 3 });
+      const b = createBody(200, 100);
+      const composite = new Composite([a, b]);
+
+      expect(composite.getBounds()).toEqual({ minX: 90, minY: 90, maxX: 210, maxY: 110 });
+      expect(composite.getCentroid()).toEqual({ x: 125, y: 100 });
+      expect(new Composite().getCentroid()).toBeNull();
+    });
+  });
+
+  describe('setting properties', () => {
+    it('should apply body and constraint settings to every member', () => {
+      const parent = createPair();
+      parent.addComposite(createPair());
+
+      parent.setBodies({ mass: 4, isStatic: true, collisionFilter: { group: -5 } });
+      parent.setConstraints({ stiffness: 0.3 });
+
+      for (const body of parent.allBodies()) {
+        expect(body.mass).toBe(4);
+        expect(body.inverseMass).toBe(0);
+        expect(body.collisionFilter).toEqual({ category: 1, mask: 0xFFFFFFFF, group: -5 });
+      }
+      expect(parent.allConstraints().every(c => c.stiffness === 0.3)).toBe(true);
+    });
+  });
+
+  describe('createSoftBody', () => {
+    it('should return a composite that removes its particles', () => {
+      let frame: FrameRequestCallback | null = null;
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        frame = callback;
+        return 1;
+      });
+
+      const softBody = createSoftBody(world, container, 200, 200, 3, 2, 5, 20);
+      frame!(0);
+
+      expect(softBody).toBeInstanceOf(Composite);
+      expect(world.bodies).toHaveLength(6);
+      expect(world.constraints).toHaveLength(7);
+      expect(container.querySelectorAll('.particle')).toHaveLength(6);
+
+      world.remove(softBody);
+      expect(world.bodies).toHaveLength(0);
+      expect(world.constraints).toHaveLength(0);
+      expect(container.querySelectorAll('.particle')).toHaveLength(0);
+      rafSpy.mockRestore();
+    });
+  });
+
+  describe('createChain', () => {
+    let frame: FrameRequestCallback | null;
+
+    beforeEach(() => {
+      frame = null;
+      vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        frame = callback;
+        return 1;
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should generate links hanging from the anchor', () => {
+      const chain = createChain(world, container, 4, { x: 400, y: 50 }, { linkLength: 25 });
+      frame!(0);
+
+      expect(chain.label).toBe('Chain');
+      expect(chain.bodies).toHaveLength(4);
+      expect(container.querySelectorAll('.chain-link')).toHaveLength(4);
+      expect(chain.constraints).toHaveLength(4); // Anchor + 3 links
+      expect(chain.constraints[0].bodyA).toBeNull();
+      expect(chain.constraints[0].pointA).toEqual({ x: 400, y: 50 });
+      expect(chain.constraints.every(c => c.length === 25)).toBe(true);
+    });
+
+    it('should link existing elements at their measured distances', () => {
+      const words = [0, 1, 2].map(i => createElement(100 + i * 60, 100));
+      const chain = createChain(world, container, words, null, { pinStart: false, pinEnd: true });
+      frame!(0);
+
+      expect(chain.bodies.map(body => body.element)).toEqual(words);
+      expect(chain.elements).toHaveLength(0); // Not generated - left on the page by world.remove()
+      expect(chain.constraints).toHaveLength(3);
+      expect(chain.constraints[0].length).toBeCloseTo(60);
+      expect(chain.constraints[2].bodyB).toBe(chain.bodies[2]);
+      expect(chain.constraints[2].getWorldPointA()).toEqual(chain.bodies[2].getCenter());
+    });
+
+    it('should keep links from colliding with each other unless selfCollision is set', () => {
+      const chain = createChain(world, container, 2, { x: 100, y: 0 });
+      const collidingChain = createChain(world, container, 2, { x: 300, y: 0 }, { selfCollision: true });
+
+      expect(chain.bodies[0].collisionFilter.group).toBeLessThan(0);
+      expect(chain.bodies[1].collisionFilter.group).toBe(chain.bodies[0].collisionFilter.group);
+      expect(collidingChain.bodies[0].collisionFilter.group).toBe(0);
+    });
+
+    it('should hold its link lengths while hanging', () => {
+      world.gravity = 400;
+      const chain = createChain(world, container, 5, { x: 400, y: 50 }, { linkLength: 20 });
+      frame!(0);
+      chain.bodies[4].prevX = chain.bodies[4].x - 10; // Swing the free end
+
+      for (let i = 0; i < 120; i++) {
+        world.step();
+      }
+
+      for (const constraint of chain.constraints) {
+        const a = constraint.getWorldPointA();
+        const b = constraint.getWorldPointB();
+        expect(Math.hypot(b.x - a.x, b.y - a.y)).toBeLessThan(20 * 1.2);
+      }
+    });
+  });
+
+  describe('createBlob', () => {
+    let frame: FrameRequestCallback | null;
+
+    beforeEach(() => {
+      frame = null;
+      vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        frame = callback;
+        return 1;
+      });
+
+      // Generated particles are laid out with inline left/top/width/height
+      vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+        const x = parseFloat(this.style.left) || 0;
+        const y = parseFloat(this.style.top) || 0;
+        const width = parseFloat(this.style.width) || 0;
+        const height = parseFloat(this.style.height) || 0;
+        return {
+          left: x, top: y, right: x + width, bottom: y + height,
+          width, height, x, y, toJSON: () => {}
+        } as DOMRect;
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should build a ring held by perimeter and area constraints', () => {
+      const blob = createBlob(world, container, 400, 300, 50, 12, 5);
+      frame!(0);
+
+      expect(blob.label).toBe('Blob');
+      expect(blob.bodies).toHaveLength(12);
+      expect(blob.constraints).toHaveLength(13);
+      const pressure = blob.constraints[12] as AreaConstraint;
+      expect(pressure).toBeInstanceOf(AreaConstraint);
+      expect(pressure.bodies).toEqual(blob.bodies);
+    });
+
+    it('should recover its area after being squashed', () => {
+      const blob = createBlob(world, container, 400, 300, 50, 12, 5);
+      frame!(0);
+      const pressure = blob.constraints[12] as AreaConstraint;
+      const restArea = pressure.area;
+
+      // Flatten the ring vertically
+      for (const body of blob.bodies) {
+        const dy = (body.getCenter().y - 300) * 0.5;
+        body.y -= dy;
+        body.prevY = body.y;
+      }
+      expect(pressure.getArea()).toBeLessThan(restArea * 0.6);
+
+      for (let i = 0; i < 60; i++) {
+        world.step();
+      }
+
+      expect(pressure.getArea()).toBeGreaterThan(restArea * 0.9);
+    });
+
+    it('should clip a skin element to the ring and move it with the blob', () => {
+      const blob = createBlob(world, container, 400, 300, 50, 8, 5, { skin: true });
+      const skin = container.querySelector('.blob-skin') as HTMLElement;
+
+      expect(blob.elements).toContain(skin);
+      expect(skin.style.getPropertyValue('clip-path')).toMatch(/^path\('M .* Z'\)$/);
+      expect(blob.bodies[0].element.style.visibility).toBe('hidden');
+
+      blob.translate(30, 0);
+      world.render();
+
+      expect(skin.style.transform).toBe('translate(30px, 0px)');
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World, type ConstraintOrder } from '../src/World.js';
+import type { Body } from '../src/Body.js';
+import { Constraint } from '../src/Constraint.js';
+import { Composite } from '../src/Composite.js';
+import { createBody } from './helpers.js';
+
+describe('Constraint', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 980 });
+  });
+
+  describe('constructor', () => {
+    it('should measure pin joint length from current positions', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      const constraint = new Constraint({ bodyA: null, bodyB: body, pointA: { x: 100, y: 50 }, length: 0 });
+
+      expect(constraint.length).toBe(50);
+      expect(constraint.stiffness).toBe(0.7);
+    });
+  });
+
+  describe('rotation', () => {
+    it('should attach local points that rotate with the body', () => {
+      const box = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+      const constraint = new Constraint({ bodyA: null, bodyB: box, pointA: { x: 0, y: 0 }, pointB: { x: 0, y: 0 } });
+
+      box.angle = Math.PI;
+      const point = constraint.getWorldPointB();
+      expect(point.x).toBeCloseTo(140);
+      expect(point.y).toBeCloseTo(140);
+    });
+
+    it('should swing a box hung from its corner until the centre is under the pivot', () => {
+      const box = createBody(world, 300, 100, 40, 40, { shape: 'box' });
+      world.registerConstraint(new Constraint({
+        bodyA: null,
+        bodyB: box,
+        pointA: { x: 300, y: 100 },
+        pointB: { x: 0, y: 0 }, // Top-left corner
+        length: 0,
+        stiffness: 1
+      }));
+
+      for (let i = 0; i < 900; i++) {
+        world.step();
+      }
+
+      // Diagonal hangs vertically: 45° turn, centre straight below the pin
+      expect(box.angle).toBeCloseTo(Math.PI / 4, 1);
+      expect(box.getCenter().x).toBeCloseTo(300, 0);
+    });
+
+    it('should not rotate bodies attached at their centre', () => {
+      const box = createBody(world, 300, 100, 40, 40, { shape: 'box' });
+      world.registerConstraint(new Constraint({
+        bodyA: null,
+        bodyB: box,
+        pointA: { x: 250, y: 120 },
+        pointB: { x: 20, y: 20 }, // Centre
+        length: 0
+      }));
+
+      for (let i = 0; i < 60; i++) {
+        world.step();
+      }
+
+      expect(box.angle).toBe(0);
+    });
+  });
+
+  describe('solve order', () => {
+    // Record which constraints the world solves, in order
+    function recordSolves(constraints: Constraint[]): string[] {
+      const solved: string[] = [];
+      constraints.forEach((constraint, index) => {
+        const solve = constraint.solve.bind(constraint);
+        constraint.solve = (timeScale: number) => {
+          solved.push(`c${index}`);
+          solve(timeScale);
+        };
+        world.registerConstraint(constraint);
+      });
+      return solved;
+    }
+
+    function createChain(count: number): Body[] {
+      return Array.from({ length: count }, (_, i) => createBody(world, 100 + i * 40, 100, 10, 10));
+    }
+
+    it('should solve fixed constraints first, then by registration order', () => {
+      world.constraintIterations = 1;
+      const [a, b, c] = createChain(3);
+      const solved = recordSolves([
+        new Constraint({ bodyA: a, bodyB: b }),
+        new Constraint({ bodyA: b, bodyB: c }),
+        new Constraint({ bodyA: null, bodyB: a, pointA: { x: 100, y: 50 } })
+      ]);
+
+      world.step();
+
+      expect(solved).toEqual(['c2', 'c0', 'c1']);
+    });
+
+    it('should solve higher priorities first', () => {
+      world.constraintIterations = 1;
+      const [a, b, c] = createChain(3);
+      const solved = recordSolves([
+        new Constraint({ bodyA: a, bodyB: b }),
+        new Constraint({ bodyA: b, bodyB: c, priority: 1 }),
+        new Constraint({ bodyA: null, bodyB: a, pointA: { x: 100, y: 50 } })
+      ]);
+
+      world.step();
+
+      expect(solved).toEqual(['c1', 'c2', 'c0']);
+    });
+
+    it('should sweep backwards on every other pass when alternating', () => {
+      world.constraintOrder = 'alternating';
+      const [a, b, c] = createChain(3);
+      const solved = recordSolves([
+        new Constraint({ bodyA: a, bodyB: b }),
+        new Constraint({ bodyA: b, bodyB: c })
+      ]);
+
+      world.step();
+
+      expect(solved).toEqual(['c0', 'c1', 'c1', 'c0']);
+    });
+
+    it('should group constraints that share no moving body with graph colouring', () => {
+      world.constraintIterations = 1;
+      world.constraintOrder = 'graph-coloring';
+      const [a, b, c, d] = createChain(4);
+      const solved = recordSolves([
+        new Constraint({ bodyA: a, bodyB: b }),
+        new Constraint({ bodyA: b, bodyB: c }),
+        new Constraint({ bodyA: c, bodyB: d })
+      ]);
+
+      world.step();
+
+      expect(solved).toEqual(['c0', 'c2', 'c1']);
+    });
+
+    it('should converge regardless of registration order when alternating or graph colouring', () => {
+      const chainStretch = (constraintIterations: number, constraintOrder: ConstraintOrder, reverse: boolean) => {
+        const chainWorld = new World(container, { gravity: 980, constraintIterations, constraintOrder });
+        let previous: Body | null = null;
+        const links: Constraint[] = [];
+        for (let i = 0; i < 12; i++) {
+          const link = createBody(chainWorld, 400, 100 + i * 20, 10, 10, { collisionFilter: { group: -1 } });
+          const constraint = previous
+            ? new Constraint({ bodyA: previous, bodyB: link })
+            : new Constraint({ bodyA: null, bodyB: link, pointA: { x: 405, y: 85 } });
+          links.push(constraint);
+          previous = link;
+        }
+        // Registered from the anchor down, or from the free end up
+        for (const constraint of reverse ? links.slice().reverse() : links) {
+          chainWorld.registerConstraint(constraint);
+        }
+
+        for (let i = 0; i < 60; i++) {
+          chainWorld.step();
+        }
+        return links.reduce((stretch, constraint) => {
+          const a = constraint.getWorldPointA();
+          const b = constraint.getWorldPointB();
+          return stretch + Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2) - constraint.length;
+        }, 0);
+      };
+
+      const orderDependence = (constraintOrder: ConstraintOrder) =>
+        Math.abs(chainStretch(2, constraintOrder, false) - chainStretch(2, constraintOrder, true));
+
+      const legacy = orderDependence('fixed-first');
+      expect(orderDependence('alternating')).toBeLessThan(legacy / 4);
+      expect(orderDependence('graph-coloring')).toBeLessThan(legacy / 4);
+      expect(chainStretch(8, 'alternating', true)).toBeLessThan(chainStretch(2, 'alternating', true));
+    });
+  });
+
+  describe('breaking', () => {
+    it('should tear when stretched past breakThreshold', () => {
+      world.gravity = 0;
+      const a = createBody(world, 100, 100, 20, 20, { isStatic: true });
+      const b = createBody(world, 200, 100, 20, 20);
+      const constraint = new Constraint({ bodyA: a, bodyB: b, breakThreshold: 1.5 });
+      world.registerConstraint(constraint);
+      const onBreak = vi.fn();
+      world.on('constraintBreak', onBreak);
+
+      b.x = 40; // 1.4 × rest length - holds
+      b.prevX = b.x;
+      world.step();
+      expect(constraint.broken).toBe(false);
+
+      b.x = 70; // 1.7 × rest length - tears
+      b.prevX = b.x;
+      world.step();
+
+      expect(constraint.broken).toBe(true);
+      expect(world.constraints).not.toContain(constraint);
+      expect(onBreak).toHaveBeenCalledWith({ constraint, bodies: [a, b] });
+      expect(b.x).toBe(70); // No correction once torn
+    });
+
+    it('should tear pins by breakForce', () => {
+      world.gravity = 0;
+      const body = createBody(world, 100, 100, 20, 20);
+      const pin = new Constraint({ bodyA: null, bodyB: body, pointA: { x: 100, y: 100 }, length: 0, breakForce: 20 });
+      world.registerConstraint(pin);
+
+      body.x = 10;
+      body.prevX = body.x;
+      world.step();
+      expect(pin.broken).toBe(false);
+
+      body.x = 50;
+      body.prevX = body.x;
+      world.step();
+      expect(pin.broken).toBe(true);
+    });
+
+    it('should remove a torn constraint from its composite', () => {
+      world.gravity = 0;
+      const a = createBody(world, 100, 100, 20, 20, { isStatic: true });
+      const b = createBody(world, 200, 100, 20, 20);
+      const constraint = new Constraint({ bodyA: a, bodyB: b, breakThreshold: 1.2 });
+      const parent = new Composite();
+      const child = new Composite([a, b], [constraint]);
+      parent.addComposite(child);
+      world.add(parent);
+
+      b.x = 50;
+      b.prevX = b.x;
+      world.step();
+
+      expect(child.constraints).toHaveLength(0);
+      expect(world.constraints).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { DragController } from '../src/DragController.js';
+import { createBody } from './helpers.js';
+
+describe('DragController', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  // jsdom has no PointerEvent - a MouseEvent with a pointerId is enough for the controller
+  function pointer(type: string, target: EventTarget, clientX: number, clientY: number, pointerId = 1, timeStamp?: number): void {
+    const event = new MouseEvent(type, { clientX, clientY, bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'pointerId', { value: pointerId });
+    if (timeStamp !== undefined) {
+      Object.defineProperty(event, 'timeStamp', { value: timeStamp });
+    }
+    target.dispatchEvent(event);
+  }
+
+  it('should be created by world.enableDragging', () => {
+    const controller = world.enableDragging();
+    expect(controller).toBeInstanceOf(DragController);
+    expect(world.dragController).toBe(controller);
+    expect(container.style.touchAction).toBe('none');
+
+    world.disableDragging();
+    expect(world.dragController).toBeNull();
+    expect(container.style.touchAction).toBe('');
+  });
+
+  it('should grab the body under the pointer and follow it', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    world.enableDragging();
+
+    pointer('pointerdown', body.element, 110, 110);
+    expect(body.isDragged).toBe(true);
+
+    pointer('pointermove', document, 210, 160);
+    expect(body.getWorldPosition()).toEqual({ x: 200, y: 150 });
+
+    world.step();
+    expect(body.getWorldPosition()).toEqual({ x: 200, y: 150 });
+  });
+
+  it('should hit-test by shape when the element is not the target', () => {
+    const left = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    const right = createBody(world, 300, 100, 40, 40, { shape: 'box' });
+    const controller = world.enableDragging();
+
+    expect(controller.getBodyAt(320, 120)).toBe(right);
+    expect(controller.getBodyAt(120, 120)).toBe(left);
+    expect(controller.getBodyAt(500, 500)).toBeNull();
+  });
+
+  it('should keep the release velocity', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    world.enableDragging();
+
+    pointer('pointerdown', body.element, 110, 110, 1, 0);
+    pointer('pointermove', document, 120, 110, 1, 16);
+    pointer('pointermove', document, 130, 110, 1, 32);
+    pointer('pointerup', document, 130, 110, 1, 40);
+
+    expect(body.isDragged).toBe(false);
+    const velocityX = body.x - body.prevX;
+    expect(velocityX).toBeGreaterThan(5); // ~10px per 16ms step
+    expect(body.y - body.prevY).toBe(0);
+  });
+
+  it('should drop a body still when the pointer stopped before release', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    world.enableDragging();
+
+    pointer('pointerdown', body.element, 110, 110, 1, 0);
+    pointer('pointermove', document, 150, 110, 1, 16);
+    pointer('pointerup', document, 150, 110, 1, 500);
+
+    expect(body.x - body.prevX).toBe(0);
+  });
+
+  it('should drag several bodies with several pointers', () => {
+    const a = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    const b = createBody(world, 300, 100, 40, 40, { shape: 'box' });
+    const controller = world.enableDragging();
+
+    pointer('pointerdown', a.element, 110, 110, 1);
+    pointer('pointerdown', b.element, 310, 110, 2);
+    expect(controller.getDraggedBodies()).toEqual([a, b]);
+
+    pointer('pointermove', document, 110, 210, 2);
+    expect(b.getWorldPosition()).toEqual({ x: 100, y: 200 });
+    expect(a.getWorldPosition()).toEqual({ x: 100, y: 100 });
+
+    pointer('pointerup', document, 110, 110, 1);
+    expect(a.isDragged).toBe(false);
+    expect(b.isDragged).toBe(true);
+  });
+
+  it('should skip bodies that opt out or are static', () => {
+    const fixed = createBody(world, 100, 100, 40, 40, { shape: 'box', draggable: false });
+    const wall = createBody(world, 300, 100, 40, 40, { shape: 'box', isStatic: true });
+    world.enableDragging();
+
+    pointer('pointerdown', fixed.element, 110, 110, 1);
+    pointer('pointerdown', wall.element, 310, 110, 2);
+
+    expect(fixed.isDragged).toBe(false);
+    expect(wall.isDragged).toBe(false);
+  });
+
+  it('should report drag start and end', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    const onDragStart = vi.fn();
+    const onDragEnd = vi.fn();
+    world.enableDragging({ onDragStart, onDragEnd });
+
+    pointer('pointerdown', body.element, 110, 110);
+    pointer('pointerup', document, 110, 110);
+
+    expect(onDragStart).toHaveBeenCalledWith(expect.objectContaining({ body, pointerId: 1, x: 110, y: 110 }));
+    expect(onDragEnd).toHaveBeenCalledWith(expect.objectContaining({ body, pointerId: 1 }));
+  });
+
+  it('should emit dragStart and dragEnd on the body and the world', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    const bodyStart = vi.fn();
+    const worldStart = vi.fn();
+    const worldEnd = vi.fn();
+    body.on('dragStart', bodyStart);
+    world.on('dragStart', worldStart);
+    world.on('dragEnd', worldEnd);
+    world.enableDragging();
+
+    pointer('pointerdown', body.element, 110, 110);
+    expect(bodyStart).toHaveBeenCalledWith(expect.objectContaining({ body, x: 110, y: 110, velocityX: 0 }));
+    expect(worldStart).toHaveBeenCalledTimes(1);
+    expect(worldEnd).not.toHaveBeenCalled();
+
+    pointer('pointerup', document, 110, 110);
+    expect(worldEnd).toHaveBeenCalledWith(expect.objectContaining({ body, pointerId: 1 }));
+  });
+
+  it('should pull the body with a spring constraint in spring mode', () => {
+    const body = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+    world.enableDragging({ mode: 'spring', stiffness: 0.5 });
+
+    pointer('pointerdown', body.element, 120, 120);
+    expect(body.isDragged).toBe(false);
+    expect(world.constraints.length).toBe(1);
+
+    pointer('pointermove', document, 220, 120);
+    for (let i = 0; i < 30; i++) {
+      world.step();
+    }
+    expect(body.getCenter().x).toBeGreaterThan(150);
+
+    pointer('pointerup', document, 220, 120);
+    expect(world.constraints.length).toBe(0);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { markOverlay } from '../src/ElementColliders.js';
+import { createBody } from './helpers.js';
+
+describe('ElementColliders', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // World sits 50px from the left and 20px from the top of the viewport
+    container.getBoundingClientRect = () => ({
+      left: 50, top: 20, right: 850, bottom: 620,
+      width: 800, height: 600, x: 50, y: 20, toJSON: () => {}
+    });
+
+    world = new World(container, { friction: 1 });
+  });
+
+  afterEach(() => {
+    for (const colliders of world.elementColliders.slice()) {
+      colliders.destroy();
+    }
+    vi.restoreAllMocks();
+  });
+
+  function rect(left: number, top: number, width: number, height: number): DOMRect {
+    return {
+      left, top, right: left + width, bottom: top + height,
+      width, height, x: left, y: top, toJSON: () => {}
+    } as DOMRect;
+  }
+
+  // Page element with mocked client rects (viewport coordinates)
+  function createElement(rects: DOMRect[], className: string = 'ledge'): HTMLElement {
+    const element = document.createElement('h2');
+    element.className = className;
+    document.body.appendChild(element);
+    element.getClientRects = () => rects as unknown as DOMRectList;
+    return element;
+  }
+
+  it('should make a box obstacle in world space for each client rect', () => {
+    // An inline element wrapped over two lines, and a hidden one
+    const wrapped = createElement([rect(150, 220, 300, 20), rect(50, 240, 100, 20)]);
+    const hidden = createElement([]);
+
+    const colliders = world.addStaticFromElements([wrapped, hidden]);
+
+    expect(colliders.obstacles).toHaveLength(2);
+    expect(world.obstacles).toEqual(colliders.obstacles);
+    expect(colliders.obstacles[0].vertices).toEqual([
+      { x: 100, y: 200 }, { x: 400, y: 200 }, { x: 400, y: 220 }, { x: 100, y: 220 }
+    ]);
+    expect(colliders.obstacles[1].getBounds()).toEqual({ minX: 0, minY: 220, maxX: 100, maxY: 240 });
+    expect(world.elementColliders).toEqual([colliders]);
+  });
+
+  it('should measure in the same space as bodies when the container is scrolled', () => {
+    Object.defineProperty(container, 'scrollTop', { value: 150, configurable: true });
+    createElement([rect(150, 220, 300, 20)]); // 200px below the container's top edge, 350px down its content
+    const box = createBody(world, 50 + 240, 20 + 100, 20, 20, { shape: 'box' });
+
+    const colliders = world.addStaticFromElements('.ledge');
+
+    expect(colliders.obstacles[0].getBounds()).toEqual({ minX: 100, minY: 350, maxX: 400, maxY: 370 });
+    expect(box.getWorldPosition()).toEqual({ x: 240, y: 250 }); // Both moved down by the scroll
+  });
+
+  it('should pass restitution and friction to its obstacles', () => {
+    createElement([rect(150, 220, 300, 20)]);
+
+    const colliders = world.addStaticFromElements('.ledge', { restitution: 0.1, friction: 0.9 });
+
+    expect(colliders.obstacles[0].restitution).toBe(0.1);
+    expect(colliders.obstacles[0].friction).toBe(0.9);
+  });
+
+  it('should skip bodies and elements containing the world', () => {
+    const body = createBody(world, 50 + 100, 20 + 100, 20, 20, { shape: 'box' });
+    body.element.getClientRects = () => [rect(150, 120, 20, 20)] as unknown as DOMRectList;
+    document.body.getClientRects = () => [rect(0, 0, 1000, 1000)] as unknown as DOMRectList;
+
+    const colliders = world.addStaticFromElements([body.element, document.body]);
+
+    expect(colliders.obstacles).toHaveLength(0);
+  });
+
+  it('should let bodies land on page elements', () => {
+    createElement([rect(150, 320, 300, 40)]); // World y 300 to 340
+    const box = createBody(world, 50 + 240, 20 + 200, 20, 20, { shape: 'box' });
+    world.addStaticFromElements('.ledge');
+
+    for (let i = 0; i < 120; i++) {
+      world.step();
+    }
+
+    expect(box.getBounds().maxY).toBeCloseTo(300, 0);
+  });
+
+  describe('layout changes', () => {
+    let frames: FrameRequestCallback[];
+
+    beforeEach(() => {
+      frames = [];
+      vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+        frames.push(callback);
+        return frames.length;
+      });
+    });
+
+    function runFrames(): void {
+      const pending = frames;
+      frames = [];
+      pending.forEach(callback => callback(performance.now()));
+    }
+
+    // MutationObserver callbacks run as a microtask
+    const flushMutations = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should follow elements when the page reflows', async () => {
+      let top = 220;
+      const heading = createElement([]);
+      heading.getClientRects = () => [rect(150, top, 300, 20)] as unknown as DOMRectList;
+      const colliders = world.addStaticFromElements('.ledge');
+
+      // Content inserted above pushes the heading down
+      top = 320;
+      document.body.insertBefore(document.createElement('p'), heading);
+      await flushMutations();
+      expect(colliders.obstacles[0].getBounds().minY).toBe(200); // Batched into the next frame
+      runFrames();
+
+      expect(colliders.obstacles[0].getBounds().minY).toBe(300);
+      expect(world.obstacles).toEqual(colliders.obstacles);
+    });
+
+    it('should pick up elements matching the selector later', async () => {
+      const colliders = world.addStaticFromElements('.ledge');
+      expect(colliders.obstacles).toHaveLength(0);
+
+      createElement([rect(150, 220, 300, 20)]);
+      await flushMutations();
+      runFrames();
+
+      expect(colliders.obstacles).toHaveLength(1);
+    });
+
+    it('should update on scroll', () => {
+      let top = 220;
+      const heading = createElement([]);
+      heading.getClientRects = () => [rect(150, top, 300, 20)] as unknown as DOMRectList;
+      const colliders = world.addStaticFromElements(heading);
+
+      top = 120;
+      window.dispatchEvent(new Event('scroll'));
+      runFrames();
+
+      expect(colliders.obstacles[0].getBounds().minY).toBe(100);
+    });
+
+    it('should ignore bodies moving', async () => {
+      createElement([rect(150, 220, 300, 20)]);
+      const box = createBody(world, 50 + 100, 20 + 100, 20, 20, { shape: 'box' });
+      world.addStaticFromElements('.ledge');
+
+      box.x = 10;
+      box.render();
+      await flushMutations();
+
+      expect(frames).toHaveLength(0);
+    });
+
+    it('should ignore overlays and attributes that cannot move the layout', async () => {
+      createElement([rect(150, 220, 300, 20)]);
+      world.addStaticFromElements('.ledge');
+      const skin = document.createElement('div');
+      const path = document.createElement('span');
+      skin.appendChild(path);
+      container.appendChild(skin);
+      markOverlay(skin);
+      await flushMutations();
+      frames = [];
+
+      path.style.transform = 'rotate(10deg)';
+      skin.appendChild(document.createElement('span'));
+      container.setAttribute('data-state', 'open');
+      await flushMutations();
+
+      expect(frames).toHaveLength(0);
+    });
+
+    it('should wake bodies sleeping on an element that moved', () => {
+      let top = 320;
+      const heading = createElement([]);
+      heading.getClientRects = () => [rect(150, top, 300, 20)] as unknown as DOMRectList;
+      const box = createBody(world, 50 + 240, 20 + 280, 20, 20, { shape: 'box' }); // Resting on the heading
+      const colliders = world.addStaticFromElements(heading);
+      box.setSleeping(true);
+
+      top = 420;
+      colliders.update();
+
+      expect(box.isSleeping).toBe(false);
+    });
+
+    it('should remove its obstacles and stop following when destroyed', async () => {
+      let top = 220;
+      const heading = createElement([]);
+      heading.getClientRects = () => [rect(150, top, 300, 20)] as unknown as DOMRectList;
+      const colliders = world.addStaticFromElements(heading);
+
+      const cancel = vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+      window.dispatchEvent(new Event('scroll'));
+      world.removeStaticFromElements(colliders);
+      expect(cancel).toHaveBeenCalledWith(1);
+      frames = [];
+
+      top = 320;
+      document.body.appendChild(document.createElement('p'));
+      window.dispatchEvent(new Event('scroll'));
+      await flushMutations();
+
+      expect(world.obstacles).toEqual([]);
+      expect(colliders.obstacles).toEqual([]);
+      expect(world.elementColliders).toEqual([]);
+      expect(frames).toHaveLength(0);
+    });
+  });
+});
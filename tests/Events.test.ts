@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { EventEmitter } from '../src/Events.js';
+import { createBody } from './helpers.js';
+
+describe('Events', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  describe('EventEmitter', () => {
+    it('should call handlers until they are removed', () => {
+      const emitter = new EventEmitter<{ ping: number }>();
+      const handler = vi.fn();
+
+      const unsubscribe = emitter.on('ping', handler);
+      emitter.emit('ping', 1);
+      unsubscribe();
+      emitter.emit('ping', 2);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(1);
+      expect(emitter.hasListeners('ping')).toBe(false);
+    });
+
+    it('should let a handler unsubscribe while the event is dispatched', () => {
+      const emitter = new EventEmitter<{ ping: number }>();
+      const second = vi.fn();
+      const first = () => emitter.off('ping', first);
+      emitter.on('ping', first);
+      emitter.on('ping', second);
+
+      emitter.emit('ping', 1);
+
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('collisions', () => {
+    it('should emit start, active and end for a touching pair', () => {
+      const a = createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 130, 100, 40, 40); // 10px overlap
+      const names: string[] = [];
+      world.on('collisionStart', () => names.push('start'));
+      world.on('collisionActive', () => names.push('active'));
+      world.on('collisionEnd', () => names.push('end'));
+
+      world.step();
+      world.step();
+      b.x = b.prevX = 300; // Pull the pair apart
+      world.step();
+      world.step();
+
+      expect(names).toEqual(['start', 'active', 'end']);
+      expect(a.id).not.toBe(b.id);
+    });
+
+    it('should report the pair, normal and contact point', () => {
+      const a = createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 130, 100, 40, 40);
+      const handler = vi.fn();
+      world.on('collisionStart', handler);
+
+      world.step();
+
+      const event = handler.mock.calls[0][0];
+      expect(event.bodyA).toBe(a);
+      expect(event.bodyB).toBe(b);
+      expect(event.normal).toEqual({ x: 1, y: 0 });
+      expect(event.point.x).toBeCloseTo(120);
+      expect(event.depth).toBeGreaterThan(0);
+    });
+
+    it('should report the bounce impulse', () => {
+      createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 130, 100, 40, 40);
+      b.prevX = 10; // Moving 10px/step towards A
+      const handler = vi.fn();
+      world.on('collisionStart', handler);
+
+      world.step();
+
+      expect(handler.mock.calls[0][0].impulse).toBeGreaterThan(0);
+    });
+
+    it('should notify both bodies with the other body', () => {
+      const a = createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 130, 100, 40, 40);
+      const onA = vi.fn();
+      const onB = vi.fn();
+      a.on('collisionStart', onA);
+      b.on('collisionStart', onB);
+
+      world.step();
+
+      expect(onA.mock.calls[0][0].other).toBe(b);
+      expect(onB.mock.calls[0][0].other).toBe(a);
+    });
+
+    it('should not emit for bodies that are apart', () => {
+      createBody(world, 100, 100, 40, 40);
+      createBody(world, 300, 100, 40, 40);
+      const handler = vi.fn();
+      world.on('collisionStart', handler);
+
+      world.step();
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should emit beforeStep and afterStep around each step', () => {
+      const body = createBody(world, 100, 100, 40, 40);
+      body.prevX = -5;
+      const positions: number[] = [];
+      world.on('beforeStep', () => positions.push(body.x));
+      world.on('afterStep', event => {
+        positions.push(body.x);
+        expect(event.timeStep).toBe(world.timeStep);
+      });
+
+      world.step();
+
+      expect(positions[0]).toBe(0);
+      expect(positions[1]).toBeGreaterThan(0);
+    });
+
+    it('should emit beforeRender and afterRender from the loop', () => {
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+      const names: string[] = [];
+      world.on('beforeRender', () => names.push('before'));
+      world.on('afterRender', () => names.push('after'));
+
+      world.start();
+      world.stop();
+
+      expect(names).toEqual(['before', 'after']);
+      rafSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World.js';
+import { Body } from '../src/Body.js';
+import { Constraint } from '../src/Constraint.js';
+import { Composite } from '../src/Composite.js';
+import { MeshRenderer } from '../src/MeshRenderer.js';
+
+describe('MeshRenderer', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  function createElement(x: number, y: number, width: number, height: number): HTMLElement {
+    const element = document.createElement('div');
+    container.appendChild(element);
+    element.getBoundingClientRect = () => ({
+      left: x, top: y, right: x + width, bottom: y + height,
+      width, height, x, y, toJSON: () => {}
+    });
+    return element;
+  }
+
+  // 3 × 2 particle grid whose visual centres sit on the corners of a 200 × 100 banner at (100, 100)
+  function createGrid(): Composite {
+    const composite = new Composite();
+    for (let row = 0; row < 2; row++) {
+      for (let col = 0; col < 3; col++) {
+        const element = createElement(95 + col * 100, 95 + row * 100, 10, 10);
+        composite.addBody(new Body(element, world, { radius: 5 }));
+      }
+    }
+    const [b0, b1, b2, b3, b4, b5] = composite.bodies;
+    for (const [bodyA, bodyB] of [[b0, b1], [b1, b2], [b3, b4], [b4, b5], [b0, b3], [b1, b4], [b2, b5]]) {
+      composite.addConstraint(new Constraint({ bodyA, bodyB }));
+    }
+    world.add(composite);
+    world.render(); // First render positions the particles absolutely
+    return composite;
+  }
+
+  describe('svg mode', () => {
+    it('should draw one line per constraint between the drawn particle centres', () => {
+      const grid = createGrid();
+      const renderer = new MeshRenderer(world, grid);
+
+      const lines = renderer.layer.querySelectorAll('line');
+      expect(renderer.mode).toBe('svg');
+      expect(renderer.layer.parentElement).toBe(container);
+      expect(lines).toHaveLength(7);
+      expect(lines[0].getAttribute('x1')).toBe('100.0');
+      expect(lines[0].getAttribute('x2')).toBe('200.0');
+    });
+
+    it('should keep lines on the same spot of a spinning particle', () => {
+      const grid = createGrid();
+      const renderer = new MeshRenderer(world, grid);
+      grid.bodies[0].angle = Math.PI / 2; // Turns about its top-left corner (95, 95)
+
+      world.render();
+
+      const line = renderer.layer.querySelector('line')!;
+      expect(line.getAttribute('x1')).toBe('90.0');
+      expect(line.getAttribute('y1')).toBe('100.0');
+    });
+
+    it('should follow the bodies and drop lines of removed constraints', () => {
+      const grid = createGrid();
+      const renderer = new MeshRenderer(world, grid, { stroke: '#333', strokeWidth: 2 });
+
+      grid.bodies[0].x = 10;
+      grid.removeConstraint(grid.constraints[1]);
+      world.render();
+
+      const lines = renderer.layer.querySelectorAll('line');
+      expect(lines).toHaveLength(6);
+      expect(lines[0].getAttribute('x1')).toBe('110.0');
+      expect(lines[0].getAttribute('stroke')).toBe('#333');
+    });
+  });
+
+  describe('element mode', () => {
+    it('should split the element into clipped clones and hide the original', () => {
+      const grid = createGrid();
+      const banner = createElement(100, 100, 200, 100);
+      banner.id = 'banner';
+      const renderer = new MeshRenderer(world, grid, { element: banner, columns: 3, rows: 2 });
+
+      const pieces = renderer.layer.children;
+      expect(renderer.mode).toBe('element');
+      expect(pieces).toHaveLength(4); // 2 cells × 2 triangles
+      expect(banner.style.visibility).toBe('hidden');
+      expect((pieces[0] as HTMLElement).id).toBe('');
+      expect((pieces[0] as HTMLElement).style.getPropertyValue('clip-path')).toMatch(/^polygon\(/);
+    });
+
+    it('should map the texture onto the particles', () => {
+      const grid = createGrid();
+      const banner = createElement(100, 100, 200, 100);
+      const renderer = new MeshRenderer(world, grid, { element: banner, columns: 3, rows: 2 });
+      const piece = renderer.layer.children[0] as HTMLElement;
+
+      expect(piece.style.transform).toBe('matrix(1, 0, 0, 1, 100, 100)');
+
+      // Stretch the right edge of the first cell 50px outwards
+      grid.bodies[1].x = 50;
+      grid.bodies[4].x = 50;
+      world.render();
+
+      expect(piece.style.transform).toBe('matrix(1.5, 0, 0, 1, 100, 100)');
+    });
+
+    it('should hide cells bordering a torn constraint', () => {
+      const grid = createGrid();
+      const banner = createElement(100, 100, 200, 100);
+      const renderer = new MeshRenderer(world, grid, { element: banner, columns: 3, rows: 2 });
+
+      grid.removeConstraint(grid.constraints[0]); // Top edge of the left cell
+      world.render();
+
+      const pieces = Array.from(renderer.layer.children) as HTMLElement[];
+      expect(pieces.map(piece => piece.style.display)).toEqual(['none', 'none', '', '']);
+    });
+
+    it('should need a grid matching the composite', () => {
+      const grid = createGrid();
+      const banner = createElement(100, 100, 200, 100);
+
+      expect(() => new MeshRenderer(world, grid, { element: banner, columns: 2, rows: 2 })).toThrow();
+    });
+  });
+
+  it('should clean up on destroy and when the composite leaves the world', () => {
+    const grid = createGrid();
+    const banner = createElement(100, 100, 200, 100);
+    const renderer = new MeshRenderer(world, grid, { element: banner, columns: 3, rows: 2 });
+    const svgRenderer = new MeshRenderer(world, grid);
+
+    renderer.destroy();
+    expect(renderer.layer.isConnected).toBe(false);
+    expect(banner.style.visibility).toBe('');
+
+    world.remove(grid);
+    world.render();
+    expect(svgRenderer.layer.isConnected).toBe(false);
+  });
+});
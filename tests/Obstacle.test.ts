@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World, type WorldConfig } from '../src/World.js';
+import { Obstacle } from '../src/Obstacle.js';
+import { createBody } from './helpers.js';
+
+describe('Obstacle', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+  });
+
+  function run(world: World, steps: number): void {
+    for (let i = 0; i < steps; i++) {
+      world.step();
+    }
+  }
+
+  function createWorld(config: WorldConfig = {}): World {
+    return new World(container, { friction: 1, ...config });
+  }
+
+  it('should need at least two vertices', () => {
+    expect(() => new Obstacle({ vertices: [{ x: 0, y: 0 }] })).toThrow();
+  });
+
+  it('should be added and removed like other objects', () => {
+    const world = createWorld();
+    const shelf = new Obstacle({ vertices: [{ x: 0, y: 300 }, { x: 200, y: 300 }] });
+
+    world.add(shelf);
+    world.add(shelf);
+    expect(world.obstacles).toEqual([shelf]);
+
+    world.remove(shelf);
+    expect(world.obstacles).toEqual([]);
+  });
+
+  describe('contacts', () => {
+    it('should push circles out of segments from either side', () => {
+      const world = createWorld();
+      const segment = new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }] });
+      const above = createBody(world, 200, 296, 10, 10); // radius 5, 1px into the segment
+      const below = createBody(world, 200, 303, 10, 10);
+
+      const contactAbove = segment.getContact(above)!;
+      expect(contactAbove.normal.y).toBeCloseTo(-1);
+      expect(contactAbove.depth).toBeCloseTo(1);
+      expect(contactAbove.point).toEqual({ x: 200, y: 300 });
+
+      const contactBelow = segment.getContact(below)!;
+      expect(contactBelow.normal.y).toBeCloseTo(1);
+      expect(contactBelow.depth).toBeCloseTo(2);
+    });
+
+    it('should find box contacts with convex polygons', () => {
+      const world = createWorld();
+      const trapezoid = new Obstacle({
+        vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }, { x: 320, y: 400 }, { x: 80, y: 400 }]
+      });
+      const box = createBody(world, 190, 280, 20, 30, { shape: 'box' }); // Bottom edge 10px into the top
+
+      const contact = trapezoid.getContact(box)!;
+      expect(contact.normal.x).toBeCloseTo(0);
+      expect(contact.normal.y).toBeCloseTo(-1);
+      expect(contact.depth).toBeCloseTo(10);
+    });
+
+    it('should push out circles centred exactly on a polygon edge', () => {
+      const world = createWorld();
+      const trapezoid = new Obstacle({
+        vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }, { x: 320, y: 400 }, { x: 80, y: 400 }]
+      });
+      const ball = createBody(world, 200, 300, 10, 10); // Centre on the top edge
+
+      const contact = trapezoid.getContact(ball)!;
+      expect(contact.normal.x).toBeCloseTo(0);
+      expect(contact.normal.y).toBeCloseTo(-1);
+      expect(contact.depth).toBeCloseTo(5);
+    });
+
+    it('should report nothing past the margin', () => {
+      const world = createWorld();
+      const segment = new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }] });
+      const ball = createBody(world, 200, 290, 10, 10); // 5px above
+
+      expect(segment.getContact(ball)).toBeNull();
+      expect(segment.getContact(ball, 6)!.depth).toBeCloseTo(-5);
+    });
+  });
+
+  describe('simulation', () => {
+    it('should hold bodies on a shelf', () => {
+      const world = createWorld();
+      world.add(new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }] }));
+      const box = createBody(world, 190, 200, 20, 20, { shape: 'box' });
+
+      run(world, 120);
+
+      expect(box.getBounds().maxY).toBeCloseTo(300, 0);
+      expect(box.y - box.prevY).toBeCloseTo(0, 1);
+    });
+
+    it('should slide bodies down frictionless ramps and hold them on rough ones', () => {
+      const slide = (friction: number) => {
+        const world = createWorld();
+        world.add(new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 400, y: 400 }], friction }));
+        // Square sitting on the ramp at x = 200 (ramp height there is 333.3)
+        const box = createBody(world, 190, 300, 20, 20, { shape: 'box', inertia: Infinity, kineticFriction: 1 });
+        box.prevX = box.x;
+        run(world, 60);
+        return box.getCenter().x;
+      };
+
+      expect(slide(0)).toBeGreaterThan(260);
+      expect(slide(1)).toBeLessThan(205); // tan(18.4°) = 0.33 < friction
+    });
+
+    it('should bounce with the lower of its own and the body\'s restitution', () => {
+      const bounce = (restitution: number | null) => {
+        const world = createWorld({ gravity: 0 });
+        world.add(new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }], restitution }));
+        const ball = createBody(world, 200, 280, 10, 10, { restitution: 0.8 });
+        ball.prevY = ball.y - 10;
+        run(world, 3);
+        return ball.y - ball.prevY;
+      };
+
+      expect(bounce(null)).toBeLessThan(-4); // The body's 0.8
+      expect(bounce(0)).toBeCloseTo(0);
+      expect(bounce(1)).toBeCloseTo(bounce(null));
+    });
+
+    it('should stop fast bodies tunnelling through segments', () => {
+      const world = createWorld({ gravity: 0 });
+      world.add(new Obstacle({ vertices: [{ x: 100, y: 300 }, { x: 300, y: 300 }] }));
+      const ball = createBody(world, 200, 200, 10, 10);
+      ball.prevY = ball.y - 40; // 2400 px/s
+
+      run(world, 5);
+
+      expect(ball.getCenter().y).toBeLessThan(300);
+      expect(ball.y - ball.prevY).toBeLessThan(0);
+    });
+  });
+});
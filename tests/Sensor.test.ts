@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import type { Body } from '../src/Body.js';
+import { createBody } from './helpers.js';
+
+describe('Sensor', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0, friction: 1 });
+  });
+
+  function createDropZone(): Body {
+    return createBody(world, 300, 300, 100, 100, { shape: 'box', isStatic: true, isSensor: true });
+  }
+
+  it('should let bodies pass through without a response', () => {
+    createDropZone();
+    const ball = createBody(world, 280, 350, 20, 20);
+    ball.prevX = -5; // 5px/step to the right
+
+    for (let i = 0; i < 10; i++) {
+      world.step();
+    }
+
+    expect(ball.x - ball.prevX).toBeCloseTo(5);
+    expect(ball.y).toBe(0);
+  });
+
+  it('should report enter, stay and exit', () => {
+    const zone = createDropZone();
+    const ball = createBody(world, 280, 350, 20, 20);
+    ball.prevX = -20; // Crosses the 100px zone in a few steps
+    const names: string[] = [];
+    zone.on('sensorEnter', ({ body }) => names.push(`enter:${body === ball}`));
+    zone.on('sensorStay', () => names.push('stay'));
+    zone.on('sensorExit', () => names.push('exit'));
+
+    for (let i = 0; i < 10; i++) {
+      world.step();
+    }
+
+    expect(names[0]).toBe('enter:true');
+    expect(names).toContain('stay');
+    expect(names[names.length - 1]).toBe('exit');
+    expect(names.filter(name => name === 'exit')).toHaveLength(1);
+  });
+
+  it('should notify the world and the body passing through', () => {
+    const zone = createDropZone();
+    const ball = createBody(world, 350, 350, 20, 20);
+    const onWorld = vi.fn();
+    const onBall = vi.fn();
+    world.on('sensorEnter', onWorld);
+    ball.on('sensorEnter', onBall);
+
+    world.step();
+
+    expect(onWorld).toHaveBeenCalledWith({ sensor: zone, body: ball });
+    expect(onBall).toHaveBeenCalledWith({ sensor: zone, body: ball });
+  });
+
+  it('should list current occupants', () => {
+    const zone = createDropZone();
+    const inside = createBody(world, 350, 350, 20, 20);
+    createBody(world, 100, 100, 20, 20);
+
+    expect(zone.getOccupants()).toEqual([]);
+    world.step();
+
+    expect(zone.getOccupants()).toEqual([inside]);
+    expect(inside.getOccupants()).toEqual([]); // Not a sensor
+  });
+
+  it('should mark sensor pairs in collision events', () => {
+    createDropZone();
+    createBody(world, 350, 350, 20, 20);
+    const onCollision = vi.fn();
+    world.on('collisionStart', onCollision);
+
+    world.step();
+
+    expect(onCollision.mock.calls[0][0].isSensor).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World, type WorldConfig } from '../src/World.js';
+import type { Body } from '../src/Body.js';
+import { Constraint } from '../src/Constraint.js';
+import { createBody } from './helpers.js';
+
+describe('Sleeping', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+  });
+
+  function createWorld(config: WorldConfig = {}): World {
+    return new World(container, { enableSleeping: true, restitution: 0, ...config });
+  }
+
+  function stepUntilAsleep(world: World, body: Body, maxSteps: number = 300): number {
+    for (let i = 1; i <= maxSteps; i++) {
+      world.step();
+      if (body.isSleeping) return i;
+    }
+    return -1;
+  }
+
+  it('should put a body resting on the floor to sleep', () => {
+    const world = createWorld();
+    const body = createBody(world, 100, 560, 40, 40);
+    const onSleep = vi.fn();
+    body.on('sleepStart', onSleep);
+
+    const steps = stepUntilAsleep(world, body);
+
+    expect(steps).toBeGreaterThanOrEqual(body.sleepThreshold);
+    expect(onSleep).toHaveBeenCalledWith({ body });
+  });
+
+  it('should not integrate a sleeping body', () => {
+    const world = createWorld();
+    const body = createBody(world, 100, 300, 40, 40);
+    body.setSleeping(true);
+
+    world.step();
+    world.step();
+
+    expect(body.y).toBe(0);
+    expect(body.fy).toBe(0);
+  });
+
+  it('should never sleep without enableSleeping or with sleepThreshold 0', () => {
+    const world = createWorld({ enableSleeping: false });
+    const body = createBody(world, 100, 560, 40, 40);
+    expect(stepUntilAsleep(world, body)).toBe(-1);
+
+    const sleepyWorld = createWorld();
+    const restless = createBody(sleepyWorld, 100, 560, 40, 40, { sleepThreshold: 0 });
+    expect(stepUntilAsleep(sleepyWorld, restless)).toBe(-1);
+  });
+
+  it('should wake on applyForce', () => {
+    const world = createWorld();
+    const body = createBody(world, 100, 300, 40, 40);
+    const onWake = vi.fn();
+    world.on('sleepEnd', onWake);
+    body.setSleeping(true);
+
+    body.applyForce(0, -1000);
+
+    expect(body.isSleeping).toBe(false);
+    expect(onWake).toHaveBeenCalledWith({ body });
+  });
+
+  it('should wake when a moving body hits it', () => {
+    const world = createWorld({ gravity: 0 });
+    const sleeper = createBody(world, 200, 300, 40, 40);
+    const ball = createBody(world, 130, 300, 40, 40);
+    sleeper.setSleeping(true);
+    ball.prevX = -5; // Moving right at 5px/step
+
+    for (let i = 0; i < 20 && sleeper.isSleeping; i++) {
+      world.step();
+    }
+
+    expect(sleeper.isSleeping).toBe(false);
+  });
+
+  it('should hold a sleeping body still when a slow body leans on it', () => {
+    const world = createWorld({ gravity: 0 });
+    const sleeper = createBody(world, 200, 300, 40, 40);
+    createBody(world, 165, 300, 40, 40); // Overlapping, not moving
+    sleeper.setSleeping(true);
+
+    world.step();
+
+    expect(sleeper.isSleeping).toBe(true);
+    expect(sleeper.x).toBe(0);
+  });
+
+  it('should wake when a constraint is pulled', () => {
+    const world = createWorld({ gravity: 0 });
+    const body = createBody(world, 200, 300, 40, 40);
+    const constraint = new Constraint({ bodyA: null, bodyB: body, pointA: { x: 200, y: 200 } });
+    world.registerConstraint(constraint);
+    body.setSleeping(true);
+
+    world.step();
+    expect(body.isSleeping).toBe(true);
+
+    constraint.pointA = { x: 200, y: 180 };
+    world.step();
+    expect(body.isSleeping).toBe(false);
+  });
+
+  it('should wake when picked up by the drag controller', () => {
+    const world = createWorld();
+    const body = createBody(world, 100, 300, 40, 40);
+    body.setSleeping(true);
+    world.enableDragging();
+
+    const event = new MouseEvent('pointerdown', { clientX: 100, clientY: 300, bubbles: true });
+    body.element.dispatchEvent(event);
+
+    expect(body.isSleeping).toBe(false);
+    expect(body.isDragged).toBe(true);
+    world.disableDragging();
+  });
+
+  it('should stop writing transforms once rendered asleep', () => {
+    const world = createWorld();
+    const body = createBody(world, 100, 300, 40, 40);
+    body.x = 10;
+    body.setSleeping(true);
+
+    body.render();
+    const transform = body.element.style.transform;
+    body.element.style.transform = 'none';
+    body.render();
+
+    expect(transform).toBe('translate(10px, 0px)');
+    expect(body.element.style.transform).toBe('none');
+  });
+
+  it('should pause the loop while everything sleeps and resume on wake', () => {
+    const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+    const world = createWorld({ pauseWhenAsleep: true });
+    const body = createBody(world, 100, 300, 40, 40);
+    body.setSleeping(true);
+
+    world.start();
+    expect(world.paused).toBe(true);
+    expect(rafSpy).not.toHaveBeenCalled();
+
+    body.applyForce(10, 0);
+    expect(world.paused).toBe(false);
+    expect(rafSpy).toHaveBeenCalledTimes(1);
+
+    world.stop();
+    rafSpy.mockRestore();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { World } from '../src/World.js';
 import { Body } from '../src/Body.js';
+import { createBody } from './helpers.js';
 
 describe('World', () => {
   let container: HTMLElement;
@@ -55,6 +56,25 @@ describe('World', () => {
       expect(world.timeStep).toBe(1/30);
     });
 
+    it('should take solver iterations and constraint order from config', () => {
+      const defaults = new World(container);
+      expect(defaults.constraintIterations).toBe(2);
+      expect(defaults.positionIterations).toBe(6);
+      expect(defaults.velocityIterations).toBe(4);
+      expect(defaults.constraintOrder).toBe('fixed-first');
+
+      const world = new World(container, {
+        constraintIterations: 6,
+        positionIterations: 3,
+        velocityIterations: 2,
+        constraintOrder: 'graph-coloring'
+      });
+      expect(world.constraintIterations).toBe(6);
+      expect(world.positionIterations).toBe(3);
+      expect(world.velocityIterations).toBe(2);
+      expect(world.constraintOrder).toBe('graph-coloring');
+    });
+
     it('should auto-detect bounds from container', () => {
       const world = new World(container);
       expect(world.bounds.width).toBe(800);
@@ -178,10 +198,155 @@ describe('World', () => {
       world.registerBody(body2);
       
       // Step should integrate and check collisions
-      world['step']();
+      world.step();
       
       // Bodies should have been integrated (gravity applied)
       expect(body1.fy).toBe(0); // Forces reset after integrate
     });
   });
+  describe('headless stepping', () => {
+    function createBall(world: World, x: number, y: number, vx: number): Body {
+      const body = createBody(world, x, y, 30, 30);
+      body.prevX = -vx;
+      return body;
+    }
+
+    it('should step by a custom dt', () => {
+      const world = new World(container, { headless: true });
+      const short = createBall(world, 100, 100, 0);
+      world.step(1 / 120);
+
+      const other = new World(container, { headless: true });
+      const long = createBall(other, 100, 100, 0);
+      other.step();
+
+      expect(short.y).toBeGreaterThan(0);
+      expect(short.y).toBeCloseTo(long.y / 4);
+    });
+
+    it('should advance in fixed steps and carry the remainder', () => {
+      const world = new World(container, { headless: true });
+      const afterStep = vi.fn();
+      world.on('afterStep', afterStep);
+
+      expect(world.advance(1)).toBe(60);
+      expect(world.advance(0.01)).toBe(0);
+      expect(world.advance(0.01)).toBe(1);
+      expect(afterStep).toHaveBeenCalledTimes(61);
+      expect(afterStep).toHaveBeenCalledWith({ timeStep: 1 / 60 });
+    });
+
+    it('should skip rendering when headless', () => {
+      const world = new World(container, { headless: true });
+      const body = createBall(world, 100, 100, 5);
+      const beforeRender = vi.fn();
+      world.on('beforeRender', beforeRender);
+
+      world.advance(0.5);
+      world.render();
+
+      expect(body.element.style.transform).toBe('');
+      expect(beforeRender).not.toHaveBeenCalled();
+    });
+
+    it('should reproduce the same simulation exactly', () => {
+      const run = () => {
+        container.innerHTML = '';
+        const world = new World(container, { headless: true });
+        const bodies = [
+          createBall(world, 100, 100, 8),
+          createBall(world, 300, 120, -6),
+          createBall(world, 200, 400, 3)
+        ];
+        world.advance(3);
+        return bodies.map(body => [body.x, body.y, body.angle]);
+      };
+
+      expect(run()).toEqual(run());
+    });
+  });
+  describe('timestep', () => {
+    function createBall(world: World, vx: number): Body {
+      const body = createBody(world, 100, 100, 30, 30);
+      body.prevX = -vx;
+      return body;
+    }
+
+    it('should cap steps per frame and drop the backlog', () => {
+      const rafSpy = vi.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+      const world = new World(container, { maxSubSteps: 3 });
+      const afterStep = vi.fn();
+      world.on('afterStep', afterStep);
+
+      world.start();
+      world['loop'](world.lastTime + 10000); // Tab was in the background for 10s
+
+      expect(afterStep).toHaveBeenCalledTimes(3);
+      expect(world.accumulator).toBeLessThan(world.timeStep * 1000);
+      world.stop();
+      rafSpy.mockRestore();
+    });
+
+    it('should cover the same distance with smaller steps', () => {
+      const world = new World(container, { gravity: 0, friction: 1, headless: true });
+      const body = createBall(world, 6); // 6px per 1/60s
+
+      world.step(1 / 120);
+      world.step(1 / 120);
+
+      expect(body.x).toBeCloseTo(6);
+      expect(body.x - body.prevX).toBeCloseTo(3);
+    });
+
+    it('should ignore a step of 0', () => {
+      const world = new World(container, { gravity: 0, friction: 1, headless: true });
+      const body = createBall(world, 6);
+
+      world.step(0);
+      world.step();
+
+      expect(body.x).toBeCloseTo(6);
+      expect(body.x - body.prevX).toBeCloseTo(6);
+    });
+
+    it('should apply the same air friction per second regardless of step size', () => {
+      const coarse = new World(container, { gravity: 0, friction: 0.9, headless: true });
+      const coarseBody = createBall(coarse, 6);
+      coarse.step(1 / 60);
+
+      const fine = new World(container, { gravity: 0, friction: 0.9, headless: true });
+      const fineBody = createBall(fine, 6);
+      fine.step(1 / 120);
+      fine.step(1 / 120);
+
+      // Velocity per 1/60s after 1/60s of travel
+      const coarseVelocity = coarseBody.x - coarseBody.prevX;
+      const fineVelocity = (fineBody.x - fineBody.prevX) * 2;
+      expect(fineVelocity).toBeCloseTo(coarseVelocity);
+    });
+
+    it('should keep slow bodies moving with small steps', () => {
+      const world = new World(container, { gravity: 0, friction: 1, headless: true });
+      const body = createBall(world, 0.15); // Slow, but above the stop threshold at 60Hz
+
+      for (let i = 0; i < 4; i++) {
+        world.step(1 / 240);
+      }
+
+      expect(body.x).toBeCloseTo(0.15);
+    });
+
+    it('should interpolate rendered positions by the leftover time', () => {
+      const world = new World(container, { gravity: 0, friction: 1, interpolate: true });
+      const body = createBall(world, 10);
+      body.element.style.position = 'absolute'; // Skip the first-render re-base
+
+      world.advance(1.5 / 60); // One step plus half a step left over
+      world.render();
+
+      expect(body.x).toBeCloseTo(10);
+      const rendered = parseFloat(body.element.style.transform.slice('translate('.length));
+      expect(rendered).toBeCloseTo(5);
+    });
+  });
 });
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World, type WorldConfig } from '../src/World.js';
+import { getBoxVertices } from '../src/collision.js';
+import { createBody } from './helpers.js';
+
+describe('World bounds', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+  });
+
+  function run(world: World, steps: number): void {
+    for (let i = 0; i < steps; i++) {
+      world.step();
+    }
+  }
+
+  function createWorld(config: WorldConfig): World {
+    return new World(container, { gravity: 0, friction: 1, ...config });
+  }
+
+  describe('rect', () => {
+    it('should offset the walls by bounds.x and bounds.y', () => {
+      const world = createWorld({ gravity: 980, bounds: { x: 100, y: 50, width: 200, height: 200 } });
+      const ball = createBody(world, 150, 100, 10, 10); // radius 5, centre (150, 100)
+      ball.prevX = ball.x + 20; // Moving left
+
+      run(world, 120);
+
+      const bounds = ball.getBounds();
+      expect(bounds.minX).toBeGreaterThanOrEqual(100);
+      expect(bounds.maxY).toBeCloseTo(250, 0); // Resting on the offset floor
+    });
+
+    it('should let bodies leave through open sides', () => {
+      const world = createWorld({ bounds: { x: 0, y: 0, width: 800, height: 600, open: ['top'] } });
+      const ball = createBody(world, 400, 20, 10, 10);
+      ball.prevY = ball.y + 10; // Moving up
+
+      run(world, 10);
+
+      expect(ball.getCenter().y).toBeLessThan(-50);
+    });
+
+    it('should use the bounds restitution when lower than the body\'s', () => {
+      const world = createWorld({ bounds: { x: 0, y: 0, width: 800, height: 600, restitution: 0 } });
+      const ball = createBody(world, 400, 590, 10, 10);
+      ball.prevY = ball.y - 10; // Moving down
+
+      run(world, 3);
+
+      expect(ball.y - ball.prevY).toBeCloseTo(0);
+    });
+
+    it('should slow sliding bodies with bounds friction', () => {
+      const slide = (friction: number) => {
+        const world = createWorld({ gravity: 980, bounds: { x: 0, y: 0, width: 800, height: 600, friction } });
+        const box = createBody(world, 100, 580, 20, 20, { shape: 'box', inertia: Infinity, kineticFriction: 1 });
+        box.prevX = box.x - 5;
+        run(world, 30);
+        return box.x - box.prevX;
+      };
+
+      expect(slide(0)).toBeCloseTo(5); // Frictionless by default, as before
+      expect(slide(1)).toBeCloseTo(0);
+    });
+  });
+
+  describe('circle', () => {
+    it('should keep circles inside the circle', () => {
+      const world = createWorld({ bounds: { shape: 'circle', x: 400, y: 300, radius: 100 } });
+      const ball = createBody(world, 400, 300, 20, 20); // radius 10
+      ball.prevX = ball.x - 15;
+      ball.prevY = ball.y + 25;
+
+      let bounces = 0;
+      for (let i = 0; i < 100; i++) {
+        const center = ball.getCenter();
+        const outward = (ball.x - ball.prevX) * (center.x - 400) + (ball.y - ball.prevY) * (center.y - 300);
+        world.step();
+        const after = ball.getCenter();
+        if (outward > 0 && (ball.x - ball.prevX) * (after.x - 400) + (ball.y - ball.prevY) * (after.y - 300) < 0) bounces++;
+        expect(Math.hypot(after.x - 400, after.y - 300)).toBeLessThanOrEqual(90 + 1e-9);
+      }
+      expect(bounces).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should keep box corners inside the circle', () => {
+      const world = createWorld({ gravity: 980, bounds: { shape: 'circle', x: 400, y: 300, radius: 100 } });
+      const box = createBody(world, 390, 290, 20, 20, { shape: 'box' });
+      box.prevX = box.x - 10;
+
+      for (let i = 0; i < 120; i++) {
+        world.step();
+        for (const corner of getBoxVertices(box)) {
+          expect(Math.hypot(corner.x - 400, corner.y - 300)).toBeLessThan(100.01);
+        }
+      }
+    });
+  });
+
+  describe('polygon', () => {
+    // A V-shaped bowl: sides sloping down to a point at (400, 500)
+    const triangle = [{ x: 200, y: 100 }, { x: 600, y: 100 }, { x: 400, y: 500 }];
+
+    it('should roll bodies down sloping walls', () => {
+      const world = createWorld({ gravity: 980, bounds: { shape: 'polygon', vertices: triangle } });
+      const ball = createBody(world, 300, 150, 20, 20); // radius 10, above the left slope
+
+      run(world, 300);
+
+      const center = ball.getCenter();
+      // Wedged into the bottom corner, touching both sides
+      expect(center.y).toBeCloseTo(500 - 10 * Math.sqrt(5), 0);
+      expect(center.x).toBeCloseTo(400, 0);
+    });
+
+    it('should hold bodies inside in either winding order', () => {
+      const world = createWorld({ bounds: { shape: 'polygon', vertices: triangle.slice().reverse() } });
+      const ball = createBody(world, 400, 200, 10, 10);
+      ball.prevX = ball.x + 30;
+
+      run(world, 40);
+
+      const center = ball.getCenter();
+      expect(center.x).toBeGreaterThan(200);
+      expect(center.y).toBeGreaterThan(100);
+      expect(center.y).toBeLessThan(500);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World, type WorldConfig } from '../src/World.js';
+import type { Body, BodyConfig } from '../src/Body.js';
+import { getTimeOfImpact } from '../src/ccd.js';
+import { createBody } from './helpers.js';
+
+describe('continuous collision', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0, friction: 1 });
+  });
+
+  // A ball thrown right at 60px/step towards a 4px wall at x = 300
+  function throwAtWall(config: WorldConfig = {}, ballConfig: BodyConfig = {}): Body {
+    const throwWorld = new World(container, { gravity: 0, friction: 1, ...config });
+    createBody(throwWorld, 300, 250, 4, 100, { shape: 'box', isStatic: true });
+    const ball = createBody(throwWorld, 100, 300, 10, 10, ballConfig); // radius 5, centre (100, 300)
+    ball.prevX = ball.x - 60;
+    for (let i = 0; i < 5; i++) {
+      throwWorld.step();
+    }
+    return ball;
+  }
+
+  it('should find when a moving circle first reaches an obstacle', () => {
+    const wall = createBody(world, 300, 250, 4, 100, { shape: 'box', isStatic: true });
+    const ball = createBody(world, 100, 300, 10, 10);
+    ball.x = 300; // Moved 300px this step, straight through the wall
+
+    const impact = getTimeOfImpact(ball, wall, { x: 0, y: 0, angle: 0 }, 0.5);
+
+    // Touches when the centre is 5px short of the wall face
+    expect(impact! * 300).toBeGreaterThan(194.4);
+    expect(impact! * 300).toBeLessThan(195);
+    expect(ball.x).toBe(300); // Left where it was
+  });
+
+  it('should not report obstacles the path misses', () => {
+    const wall = createBody(world, 300, 250, 4, 100, { shape: 'box', isStatic: true });
+    const ball = createBody(world, 100, 370, 10, 10); // Passes under the wall
+    ball.x = 300;
+
+    expect(getTimeOfImpact(ball, wall, { x: 0, y: 0, angle: 0 }, 0.5)).toBeNull();
+  });
+
+  it('should stop fast bodies tunnelling through thin static bodies', () => {
+    const tunnelled = throwAtWall({ ccdSpeedThreshold: Infinity });
+    expect(tunnelled.getCenter().x).toBeGreaterThan(304);
+
+    const caught = throwAtWall();
+    expect(caught.getCenter().x).toBeLessThan(300);
+    expect(caught.x - caught.prevX).toBeLessThan(0); // Bounced back
+  });
+
+  it('should always sweep bullets', () => {
+    const bullet = throwAtWall({ ccdSpeedThreshold: Infinity }, { bullet: true });
+
+    expect(bullet.getCenter().x).toBeLessThan(300);
+  });
+
+  it('should sweep boxes', () => {
+    const sweptWorld = new World(container, { gravity: 0, friction: 1 });
+    createBody(sweptWorld, 300, 250, 4, 100, { shape: 'box', isStatic: true });
+    const box = createBody(sweptWorld, 100, 290, 30, 20, { shape: 'box' });
+    box.prevX = box.x - 70;
+
+    for (let i = 0; i < 10; i++) {
+      sweptWorld.step();
+    }
+
+    expect(box.getBounds().maxX).toBeLessThan(300.5);
+  });
+
+  it('should not collide fast bodies passing close by', () => {
+    createBody(world, 300, 250, 100, 20, { shape: 'box', isStatic: true });
+    const ball = createBody(world, 100, 278, 10, 10); // Skims 3px below the box
+    ball.prevX = ball.x - 20;
+    const onCollision = vi.fn();
+    world.on('collisionStart', onCollision);
+
+    for (let i = 0; i < 30; i++) {
+      world.step();
+    }
+
+    expect(onCollision).not.toHaveBeenCalled();
+    expect(ball.x - ball.prevX).toBeCloseTo(20);
+    expect(ball.y).toBe(0);
+  });
+});
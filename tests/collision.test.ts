@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { World } from '../src/World.js';
+import { Body, type CollisionFilter } from '../src/Body.js';
+import { Constraint } from '../src/Constraint.js';
+import { getContact, canCollide } from '../src/collision.js';
+import { createBody } from './helpers.js';
+
+describe('collision', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  describe('circle - circle', () => {
+    it('should report depth and normal from A to B', () => {
+      const a = createBody(world, 100, 100, 40, 40); // radius 20, centre (100, 100)
+      const b = createBody(world, 130, 100, 40, 40);
+
+      const contact = getContact(a, b)!;
+      expect(contact.normal).toEqual({ x: 1, y: 0 });
+      expect(contact.depth).toBe(10);
+      expect(contact.point).toEqual({ x: 120, y: 100 });
+    });
+
+    it('should return null when separated beyond the margin', () => {
+      const a = createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 150, 100, 40, 40); // 10px gap
+
+      expect(getContact(a, b)).toBeNull();
+      expect(getContact(a, b, 12)!.depth).toBe(-10);
+    });
+  });
+
+  describe('box - box', () => {
+    it('should separate along the axis of least penetration', () => {
+      const a = createBody(world, 100, 100, 200, 30, { shape: 'box' });
+      const b = createBody(world, 150, 125, 100, 30, { shape: 'box' }); // 5px vertical overlap
+
+      const contact = getContact(a, b)!;
+      expect(contact.normal.x).toBeCloseTo(0);
+      expect(contact.normal.y).toBe(1);
+      expect(contact.depth).toBe(5);
+      // Middle of the top box's face that sinks into the bottom box
+      expect(contact.point.x).toBeCloseTo(200);
+      expect(contact.point.y).toBeCloseTo(125);
+    });
+
+    it('should not collide wide boxes that only their bounding circles would touch', () => {
+      const a = createBody(world, 100, 100, 200, 30, { shape: 'box' });
+      const b = createBody(world, 100, 140, 200, 30, { shape: 'box' }); // 10px gap
+
+      expect(getContact(a, b)).toBeNull();
+    });
+  });
+
+  describe('circle - box', () => {
+    it('should push a circle off the nearest box face', () => {
+      const box = createBody(world, 100, 100, 200, 40, { shape: 'box' });
+      const circle = createBody(world, 150, 92, 20, 20); // centre (150, 92), radius 10
+
+      const contact = getContact(box, circle)!;
+      expect(contact.normal.x).toBeCloseTo(0);
+      expect(contact.normal.y).toBe(-1);
+      expect(contact.depth).toBe(2);
+
+      const flipped = getContact(circle, box)!;
+      expect(flipped.normal.x).toBeCloseTo(0);
+      expect(flipped.normal.y).toBe(1);
+    });
+
+    it('should use the corner for diagonal contacts', () => {
+      const box = createBody(world, 100, 100, 40, 40, { shape: 'box' });
+      const circle = createBody(world, 146, 146, 20, 20); // centre just past the bottom-right corner
+
+      const contact = getContact(box, circle)!;
+      expect(contact.normal.x).toBeCloseTo(Math.SQRT1_2);
+      expect(contact.normal.y).toBeCloseTo(Math.SQRT1_2);
+      expect(contact.point).toEqual({ x: 140, y: 140 });
+    });
+  });
+
+  describe('rotated boxes', () => {
+    it('should grow bounds to fit the rotated box', () => {
+      const box = createBody(world, 100, 100, 40, 20, { shape: 'box', angle: Math.PI / 2 });
+      const bounds = box.getBounds();
+      expect(bounds.maxX - bounds.minX).toBeCloseTo(20);
+      expect(bounds.maxY - bounds.minY).toBeCloseTo(40);
+    });
+
+    it('should collide a circle with a rotated box face', () => {
+      const box = createBody(world, 100, 100, 100, 20, { shape: 'box', angle: Math.PI / 4 });
+      // Box centre (150, 110); circle sits just off the face along the box's local y axis
+      const circle = createBody(world, 150 - 18 * Math.SQRT1_2, 110 + 18 * Math.SQRT1_2, 20, 20);
+
+      const contact = getContact(box, circle)!;
+      expect(contact.depth).toBeCloseTo(2);
+      expect(contact.normal.x).toBeCloseTo(-Math.SQRT1_2);
+      expect(contact.normal.y).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should use a corner for a tilted box resting on another box', () => {
+      const floor = createBody(world, 0, 200, 400, 20, { shape: 'box' });
+      const tilted = createBody(world, 180, 165, 40, 40, { shape: 'box', angle: Math.PI / 4 });
+
+      const contact = getContact(floor, tilted)!;
+      expect(contact.normal.y).toBeCloseTo(-1);
+      // Lowest corner of the tilted box is under its centre
+      expect(contact.point.x).toBeCloseTo(200);
+      expect(contact.depth).toBeCloseTo(185 + 20 * Math.SQRT2 - 200);
+    });
+  });
+
+  describe('World', () => {
+    it('should rest a box flush on the floor', () => {
+      const box = createBody(world, 100, 500, 200, 30, { shape: 'box' });
+      box.y = 100; // Push 30px past the floor
+
+      world.step();
+
+      expect(box.getBounds().maxY).toBe(600);
+    });
+
+    it('should stack boxes without a bounding-circle gap', () => {
+      const bottom = createBody(world, 300, 100, 200, 30, { shape: 'box', isStatic: true });
+      const top = createBody(world, 325, 75, 150, 30, { shape: 'box' }); // 5px overlap
+
+      world.step();
+
+      const gap = bottom.getBounds().minY - top.getBounds().maxY;
+      expect(gap).toBeGreaterThanOrEqual(-5);
+      expect(gap).toBeLessThan(1);
+    });
+
+    it('should correct overlap further with more position iterations', () => {
+      const overlapAfterStep = (positionIterations: number) => {
+        const passWorld = new World(container, { gravity: 0, positionIterations });
+        const [a, b] = [100, 130].map(x => createBody(passWorld, x, 100, 40, 40));
+        passWorld.step();
+        return getContact(a, b)!.depth;
+      };
+
+      const single = overlapAfterStep(1);
+      expect(single).toBeLessThan(10);
+      expect(overlapAfterStep(3)).toBeLessThan(single);
+    });
+
+    it('should skip impulses with no velocity iterations', () => {
+      const noBounceWorld = new World(container, { gravity: 0, velocityIterations: 0 });
+      const ball = createBody(noBounceWorld, 300, 300, 20, 20, { restitution: 1 });
+      createBody(noBounceWorld, 200, 318, 200, 30, { shape: 'box', isStatic: true });
+      ball.prevY = ball.y - 3; // Moving into the floor
+
+      noBounceWorld.step();
+
+      expect(ball.y - ball.prevY).toBeGreaterThan(0); // Still moving down - no bounce
+    });
+
+    it('should spin a box hit off-centre', () => {
+      const box = createBody(world, 300, 300, 100, 20, { shape: 'box' });
+      const ball = createBody(world, 380, 292, 20, 20); // Over the right half of the box (centre x 350)
+      ball.prevY = ball.y - 8; // Falling onto the box
+
+      world.step();
+
+      expect(box.angle - box.prevAngle).toBeGreaterThan(0); // Right end pushed down - clockwise on screen
+    });
+
+    it('should tip a box balanced on its corner onto a face', () => {
+      const gravityWorld = new World(container, { gravity: 980 });
+      const box = createBody(gravityWorld, 300, 540, 40, 40, { shape: 'box', angle: 0.6, restitution: 0 });
+
+      for (let i = 0; i < 600; i++) {
+        gravityWorld.step();
+      }
+
+      // Settled flat on a face: angle is a multiple of 90°
+      const quarterTurns = box.angle / (Math.PI / 2);
+      expect(Math.abs(quarterTurns - Math.round(quarterTurns))).toBeLessThan(0.05);
+    });
+  });
+
+  describe('contact solver', () => {
+    it('should bounce the same way in every direction', () => {
+      world.friction = 1;
+      createBody(world, 300, 300, 40, 40, { shape: 'box', isStatic: true, restitution: 1 });
+      const fromLeft = createBody(world, 288, 320, 20, 20, { restitution: 1, inertia: Infinity });
+      const fromAbove = createBody(world, 320, 288, 20, 20, { restitution: 1, inertia: Infinity });
+      fromLeft.prevX = fromLeft.x - 5;
+      fromAbove.prevY = fromAbove.y - 5;
+
+      world.step();
+
+      expect(fromLeft.x - fromLeft.prevX).toBeCloseTo(-5);
+      expect(fromAbove.y - fromAbove.prevY).toBeCloseTo(-5);
+    });
+
+    it('should keep the old stacking response behind stackingTweaks', () => {
+      const tweakedWorld = new World(container, { gravity: 0, friction: 1, stackingTweaks: true });
+      expect(tweakedWorld.positionIterations).toBe(1);
+      expect(tweakedWorld.velocityIterations).toBe(1);
+
+      const ball = createBody(tweakedWorld, 288, 320, 20, 20, { restitution: 1, inertia: Infinity });
+      tweakedWorld.registerBody(createBody(world, 300, 300, 40, 40, { shape: 'box', isStatic: true, restitution: 1 }));
+      ball.prevX = ball.x - 5;
+
+      tweakedWorld.step();
+
+      // Sideways bounces are cut to a fraction
+      expect(ball.x - ball.prevX).toBeGreaterThan(-2);
+    });
+
+    it('should hold a pushed box with static friction until the push beats it', () => {
+      world.gravity = 980;
+      world.friction = 1;
+      const slideUnder = (force: number, staticFriction: number) => {
+        const floor = createBody(world, 0, 500, 800, 50, { shape: 'box', isStatic: true });
+        const box = createBody(world, 100, 480, 100, 20, { shape: 'box', inertia: Infinity, staticFriction, kineticFriction: 0.2 });
+        for (let i = 0; i < 60; i++) {
+          box.applyForce(force, 0);
+          world.step();
+        }
+        world.unregisterBody(floor);
+        world.unregisterBody(box);
+        return box.x;
+      };
+
+      // Static friction holds up to μs·m·g = 490 with μs = 0.5
+      expect(Math.abs(slideUnder(300, 0.5))).toBeLessThan(0.5);
+      expect(slideUnder(600, 0.5)).toBeGreaterThan(10);
+    });
+
+    it('should slow a sliding box by kinetic friction', () => {
+      world.gravity = 980;
+      world.friction = 1;
+      const slideDistance = (kineticFriction: number) => {
+        const floor = createBody(world, 0, 500, 800, 50, { shape: 'box', isStatic: true, kineticFriction });
+        const box = createBody(world, 100, 480, 40, 20, { shape: 'box', inertia: Infinity, kineticFriction });
+        box.prevX = box.x - 4; // Sliding right at 4px/step
+        for (let i = 0; i < 120; i++) {
+          world.step();
+        }
+        world.unregisterBody(floor);
+        world.unregisterBody(box);
+        return { distance: box.x, speed: box.x - box.prevX };
+      };
+
+      // μk·g·dt² = 0.3 × 980 / 3600 px/step² - stops after about 98px
+      const rough = slideDistance(0.3);
+      expect(rough.distance).toBeCloseTo(98, -1);
+      expect(rough.speed).toBeCloseTo(0);
+      expect(slideDistance(0.05).distance).toBeGreaterThan(300);
+    });
+
+    it('should rest a stack without sinking or drifting', () => {
+      world.gravity = 980;
+      createBody(world, 0, 500, 800, 50, { shape: 'box', isStatic: true });
+      const boxes = [0, 1, 2].map(i => createBody(world, 370, 480 - i * 20, 60, 20, { shape: 'box' }));
+
+      for (let i = 0; i < 180; i++) {
+        world.step();
+      }
+
+      for (const box of boxes) {
+        expect(Math.abs(box.y)).toBeLessThan(1);
+        expect(Math.abs(box.x)).toBeLessThan(0.5);
+        expect(Math.abs(box.angle)).toBeLessThan(0.01);
+      }
+    });
+
+    it('should report the total normal impulse on collision events', () => {
+      world.friction = 1;
+      createBody(world, 300, 300, 40, 40, { shape: 'box', isStatic: true });
+      const ball = createBody(world, 320, 288, 20, 20, { restitution: 0, inertia: Infinity });
+      ball.prevY = ball.y - 5;
+      let impulse = 0;
+      world.on('collisionStart', collision => { impulse = collision.impulse; });
+
+      world.step();
+
+      expect(impulse).toBeCloseTo(5); // Mass 1 stopped from 5px/step
+    });
+  });
+
+  describe('collision filter', () => {
+    const filter = (config: Partial<CollisionFilter>): CollisionFilter => ({
+      category: 0x0001, mask: 0xFFFFFFFF, group: 0, ...config
+    });
+
+    it('should follow Matter.js group and category rules', () => {
+      expect(canCollide(filter({}), filter({}))).toBe(true);
+      expect(canCollide(filter({ group: -1 }), filter({ group: -1 }))).toBe(false);
+      expect(canCollide(filter({ group: 2, mask: 0 }), filter({ group: 2, mask: 0 }))).toBe(true);
+      expect(canCollide(filter({ category: 0x0002, mask: 0x0001 }), filter({ category: 0x0004 }))).toBe(false);
+      expect(canCollide(filter({ category: 0x0002, mask: 0x0004 }), filter({ category: 0x0004, mask: 0x0002 }))).toBe(true);
+    });
+
+    it('should hand out distinct groups and categories', () => {
+      expect(Body.nextGroup(true)).toBeLessThan(0);
+      expect(Body.nextGroup()).toBeGreaterThan(0);
+      const category = Body.nextCategory();
+      expect(Body.nextCategory()).toBe(category << 1);
+    });
+
+    it('should let masked bodies pass through each other but not the floor', () => {
+      const text = createBody(world, 100, 100, 40, 40);
+      const particle = createBody(world, 110, 100, 40, 40, { collisionFilter: { category: 0x0002, mask: 0x0002 } });
+      particle.y = 500;
+
+      world.step();
+
+      expect(text.x).toBe(0);
+      expect(particle.x).toBe(0);
+      expect(particle.getBounds().maxY).toBe(600);
+    });
+
+    it('should not collide bodies joined by constraints unless they have a group', () => {
+      // A chain of three overlapping bodies - the ends are only joined through the middle
+      const a = createBody(world, 100, 100, 40, 40);
+      const b = createBody(world, 115, 100, 40, 40);
+      const c = createBody(world, 130, 100, 40, 40);
+      world.registerConstraint(new Constraint({ bodyA: a, bodyB: b }));
+      world.registerConstraint(new Constraint({ bodyA: b, bodyB: c }));
+
+      world.step();
+      expect([a.x, b.x, c.x]).toEqual([0, 0, 0]);
+
+      const group = Body.nextGroup();
+      const d = createBody(world, 300, 100, 40, 40, { collisionFilter: { group } });
+      const e = createBody(world, 330, 100, 40, 40, { collisionFilter: { group } });
+      world.registerConstraint(new Constraint({ bodyA: d, bodyB: e, stiffness: 0.1 }));
+
+      world.step();
+      expect(e.x).toBeGreaterThan(0);
+    });
+  });
+});
@@ -73,7 +73,7 @@ describe('Demo Behaviors', () => {
       body.applyForce(1000, 500);
 
       // Step the simulation
-      world['step']();
+      world.step();
 
       // Body should have moved
       expect(body.x).not.toBe(initialX);
@@ -182,7 +182,7 @@ describe('Demo Behaviors', () => {
         
         // Apply force to drag (like in squares demo)
         body.applyForce(dx * 10, dy * 10);
-        world['step']();
+        world.step();
       }
 
       // Body should have moved toward target
@@ -253,7 +253,7 @@ describe('Demo Behaviors', () => {
       const pos2Before = body2.getWorldPosition();
 
       // Step simulation - should resolve collision
-      world['step']();
+      world.step();
 
       const pos1After = body1.getWorldPosition();
       const pos2After = body2.getWorldPosition();
@@ -308,7 +308,7 @@ describe('Demo Behaviors', () => {
 
       // Step simulation multiple times
       for (let i = 0; i < 10; i++) {
-        world['step']();
+        world.step();
       }
 
       // All bodies should still be within bounds
@@ -369,7 +369,7 @@ describe('Demo Behaviors', () => {
 
       // Step simulation to let blocks settle
       for (let i = 0; i < 20; i++) {
-        world['step']();
+        world.step();
       }
 
       // Verify blocks have responded to physics
@@ -442,7 +442,7 @@ describe('Demo Behaviors', () => {
       body.prevY = 0;
 
       // Step simulation
-      world['step']();
+      world.step();
 
       // Body should be constrained within bounds
       const pos = body.getWorldPosition();
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { Constraint } from '../src/Constraint.js';
+import { Composite } from '../src/Composite.js';
+import { MeshRenderer } from '../src/MeshRenderer.js';
+import { createChain } from '../src/composites.js';
+import { createBody } from './helpers.js';
+
+describe('Teardown', () => {
+  let container: HTMLElement;
+  let world: World;
+  let frames: Map<number, FrameRequestCallback>;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    frames = new Map();
+    let nextFrame = 1;
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+      frames.set(nextFrame, callback);
+      return nextFrame++;
+    });
+    vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(id => {
+      frames.delete(id);
+    });
+
+    world = new World(container, { gravity: 0 });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  function runFrames(): void {
+    const pending = Array.from(frames.values());
+    frames.clear();
+    pending.forEach(callback => callback(0));
+  }
+
+  describe('Body.destroy', () => {
+    it('should remove the body with the joints attached to it', () => {
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 200, 100, 20, 20);
+      const c = createBody(world, 300, 100, 20, 20);
+      const ab = new Constraint({ bodyA: a, bodyB: b });
+      const bc = new Constraint({ bodyA: b, bodyB: c });
+      const pin = new Constraint({ bodyA: null, bodyB: a, pointA: { x: 100, y: 50 } });
+      [ab, bc, pin].forEach(constraint => world.add(constraint));
+
+      a.destroy();
+
+      expect(world.bodies).toEqual([b, c]);
+      expect(world.constraints).toEqual([bc]);
+    });
+
+    it('should leave its composite', () => {
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 200, 100, 20, 20);
+      const pair = new Composite([a, b], [new Constraint({ bodyA: a, bodyB: b })]);
+      const parent = new Composite();
+      parent.addComposite(pair);
+      world.add(parent);
+
+      b.destroy();
+
+      expect(pair.bodies).toEqual([a]);
+      expect(pair.constraints).toEqual([]);
+      expect(parent.allBodies()).toEqual([a]);
+
+      // Adding the composite again doesn't bring it back
+      world.remove(parent);
+      world.add(parent);
+      expect(world.bodies).toEqual([a]);
+    });
+
+    it('should put the element back into the page flow', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      body.x = 30;
+      body.render();
+
+      body.destroy();
+
+      expect(body.element.style.position).toBe('');
+      expect(body.element.style.left).toBe('');
+      expect(body.element.style.transform).toBe('');
+    });
+
+    it('should keep the styles with restoreStyles: false', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      body.x = 30;
+      body.render();
+
+      body.destroy({ restoreStyles: false });
+
+      expect(body.element.style.position).toBe('absolute');
+      expect(body.element.style.transform).toBe('translate(30px, 0px)');
+    });
+
+    it('should drop its handlers and collision pairs', () => {
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 110, 100, 20, 20); // Overlapping
+      const bodyHandler = vi.fn();
+      const collisionEnd = vi.fn();
+      a.on('collisionStart', bodyHandler);
+      world.on('collisionEnd', collisionEnd);
+      world.step();
+      expect(bodyHandler).toHaveBeenCalledTimes(1);
+
+      a.destroy();
+      a.events.emit('collisionStart', {} as never);
+      world.step();
+
+      expect(bodyHandler).toHaveBeenCalledTimes(1);
+      expect(collisionEnd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Composite frames', () => {
+    it('should not create constraints for a composite removed before its first frame', () => {
+      const chain = createChain(world, container, 3, { x: 400, y: 50 });
+      expect(frames.size).toBe(1);
+
+      world.remove(chain);
+      runFrames();
+
+      expect(chain.constraints).toEqual([]);
+      expect(world.constraints).toEqual([]);
+    });
+  });
+
+  describe('World.destroy', () => {
+    it('should stop the loop', () => {
+      world.start();
+      expect(frames.size).toBe(1);
+
+      world.destroy();
+
+      expect(world.running).toBe(false);
+      expect(frames.size).toBe(0);
+    });
+
+    it('should empty the world and restore its elements', () => {
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 200, 100, 20, 20);
+      world.add(new Constraint({ bodyA: a, bodyB: b }));
+      a.x = 30;
+      a.render();
+
+      world.destroy();
+
+      expect(world.bodies).toEqual([]);
+      expect(world.constraints).toEqual([]);
+      expect(a.element.style.position).toBe('');
+      expect(a.element.isConnected).toBe(true);
+    });
+
+    it('should remove generated particles and cancel their pending frames', () => {
+      createChain(world, container, 3, { x: 400, y: 50 });
+      expect(container.querySelectorAll('.chain-link')).toHaveLength(3);
+
+      world.destroy();
+      runFrames();
+
+      expect(container.querySelectorAll('.chain-link')).toHaveLength(0);
+      expect(world.composites).toEqual([]);
+      expect(world.constraints).toEqual([]);
+    });
+
+    it('should keep generated elements with removeElements: false', () => {
+      createChain(world, container, 3, { x: 400, y: 50 });
+
+      world.destroy({ removeElements: false });
+
+      expect(container.querySelectorAll('.chain-link')).toHaveLength(3);
+    });
+
+    it('should detach listeners, observers and overlays', () => {
+      const disconnect = vi.fn();
+      vi.stubGlobal('ResizeObserver', class {
+        observe() {}
+        unobserve() {}
+        disconnect = disconnect;
+      });
+      world = new World(container, { gravity: 0 });
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 200, 100, 20, 20);
+      const pair = new Composite([a, b], [new Constraint({ bodyA: a, bodyB: b })]);
+      world.add(pair);
+      const renderer = new MeshRenderer(world, pair);
+      world.enableDragging();
+      const ledge = document.createElement('h2');
+      ledge.getClientRects = () => [{ left: 0, top: 300, right: 200, bottom: 320, width: 200, height: 20 }] as unknown as DOMRectList;
+      document.body.appendChild(ledge);
+      const colliders = world.addStaticFromElements(ledge);
+      const handler = vi.fn();
+      world.on('afterStep', handler);
+
+      world.destroy();
+
+      expect(disconnect).toHaveBeenCalled(); // World and element collider observers
+      expect(world.dragController).toBeNull();
+      expect(container.style.touchAction).toBe('');
+      expect(world.elementColliders).toEqual([]);
+      expect(world.obstacles).toEqual([]);
+      expect(colliders.obstacles).toEqual([]);
+      expect(renderer.layer.isConnected).toBe(false);
+
+      world.step();
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
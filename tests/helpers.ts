@@ -0,0 +1,26 @@
+import type { World } from '../src/World.js';
+import { Body, type BodyConfig } from '../src/Body.js';
+
+/**
+ * Create an element laid out at the given client rect in the world's container,
+ * and register a body for it
+ */
+export function createBody(
+  world: World,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  config: BodyConfig = {},
+  tag: string = 'div'
+): Body {
+  const element = document.createElement(tag);
+  world.container.appendChild(element);
+  element.getBoundingClientRect = () => ({
+    left: x, top: y, right: x + width, bottom: y + height,
+    width, height, x, y, toJSON: () => {}
+  });
+  const body = new Body(element, world, config);
+  world.registerBody(body);
+  return body;
+}
@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { RangeJoint, RopeJoint, RevoluteJoint, PrismaticJoint, Spring, Motor } from '../src/joints.js';
+import { createBody } from './helpers.js';
+
+describe('joints', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { gravity: 0, friction: 1 });
+  });
+
+  function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+    return Math.sqrt((b.x - a.x) ** 2 + (b.y - a.y) ** 2);
+  }
+
+  describe('RopeJoint', () => {
+    it('should stay slack inside its length', () => {
+      const body = createBody(world, 300, 100, 20, 20);
+      const rope = new RopeJoint({ bodyA: null, bodyB: body, pointA: { x: 300, y: 50 }, length: 100 });
+      world.registerConstraint(rope);
+      body.prevY = -2; // Drifting down at 2px/step
+
+      for (let i = 0; i < 10; i++) {
+        world.step();
+      }
+
+      expect(body.y - body.prevY).toBeCloseTo(2); // Not slowed while slack
+      expect(body.y).toBeCloseTo(20);
+    });
+
+    it('should hold a hanging body at its length', () => {
+      world.gravity = 980;
+      const body = createBody(world, 300, 100, 20, 20);
+      const rope = new RopeJoint({ bodyA: null, bodyB: body, pointA: { x: 300, y: 50 }, length: 100 });
+      world.registerConstraint(rope);
+
+      for (let i = 0; i < 240; i++) {
+        world.step();
+      }
+
+      expect(distance(rope.getWorldPointA(), rope.getWorldPointB())).toBeCloseTo(100, 0);
+    });
+
+    it('should default to the current distance', () => {
+      const body = createBody(world, 300, 100, 20, 20);
+      const rope = new RopeJoint({ bodyA: null, bodyB: body, pointA: { x: 300, y: 40 } });
+
+      expect(rope.maxLength).toBe(60);
+      expect(rope.minLength).toBe(0);
+    });
+  });
+
+  describe('RangeJoint', () => {
+    it('should push bodies apart below the minimum', () => {
+      const a = createBody(world, 300, 100, 20, 20, { isStatic: true });
+      const b = createBody(world, 340, 100, 20, 20);
+      const range = new RangeJoint({ bodyA: a, bodyB: b, minLength: 60, maxLength: 120 });
+      world.registerConstraint(range);
+
+      for (let i = 0; i < 30; i++) {
+        world.step();
+      }
+
+      const length = distance(range.getWorldPointA(), range.getWorldPointB());
+      expect(length).toBeGreaterThanOrEqual(59);
+      expect(length).toBeLessThanOrEqual(121);
+    });
+  });
+
+  describe('RevoluteJoint', () => {
+    it('should keep the relative angle within its limits', () => {
+      // Hinged boxes touch, so they don't collide with each other
+      const a = createBody(world, 300, 100, 40, 40, { shape: 'box', isStatic: true, collisionFilter: { group: -1 } });
+      const b = createBody(world, 340, 100, 40, 40, { shape: 'box', collisionFilter: { group: -1 } });
+      // Hinged at b's centre, so the pivot itself never turns it
+      const hinge = new RevoluteJoint({
+        bodyA: a,
+        bodyB: b,
+        pointA: { x: 60, y: 20 },
+        pointB: { x: 20, y: 20 },
+        lowerAngle: -0.5,
+        upperAngle: 0.5,
+        stiffness: 1
+      });
+      world.registerConstraint(hinge);
+
+      b.angle = 1.2;
+      b.prevAngle = 1.2;
+      world.step();
+
+      expect(hinge.getRelativeAngle()).toBeCloseTo(0.5);
+    });
+
+    it('should turn freely between its limits', () => {
+      const a = createBody(world, 300, 100, 40, 40, { shape: 'box', isStatic: true, collisionFilter: { group: -1 } });
+      const b = createBody(world, 340, 100, 40, 40, { shape: 'box', collisionFilter: { group: -1 } });
+      const hinge = new RevoluteJoint({ bodyA: a, bodyB: b, pointA: { x: 60, y: 20 }, pointB: { x: 20, y: 20 }, lowerAngle: -1, upperAngle: 1 });
+      world.registerConstraint(hinge);
+
+      b.angle = 0.3;
+      b.prevAngle = 0.3;
+      world.step();
+
+      expect(b.angle).toBeCloseTo(0.3);
+    });
+  });
+
+  describe('PrismaticJoint', () => {
+    it('should keep a slider on its track between the limits', () => {
+      world.gravity = 980;
+      const slider = createBody(world, 100, 100, 20, 20);
+      const track = new PrismaticJoint({ bodyA: null, bodyB: slider, lowerLimit: 0, upperLimit: 200 });
+      world.registerConstraint(track);
+      slider.prevX = -10; // Thrown right at 10px/step
+
+      for (let i = 0; i < 60; i++) {
+        world.step();
+      }
+
+      expect(slider.y).toBeCloseTo(0); // Gravity can't pull it off a horizontal track
+      expect(track.getTranslation()).toBeCloseTo(200, 0);
+      expect(track.getTranslation()).toBeLessThanOrEqual(200.01);
+    });
+
+    it('should follow a diagonal axis and lock rotation', () => {
+      const slider = createBody(world, 100, 100, 20, 20);
+      const track = new PrismaticJoint({ bodyA: null, bodyB: slider, axis: { x: 1, y: 1 } });
+      world.registerConstraint(track);
+
+      slider.x = 30;
+      slider.prevX = 30;
+      slider.angle = 0.4;
+      slider.prevAngle = 0.4;
+      world.step();
+
+      expect(slider.x).toBeCloseTo(slider.y);
+      expect(track.getTranslation()).toBeCloseTo(30 / Math.SQRT2);
+      expect(slider.angle).toBeCloseTo(0);
+    });
+
+    it('should carry the slider along with a moving track body', () => {
+      const rail = createBody(world, 100, 100, 200, 20, { shape: 'box' });
+      const slider = createBody(world, 150, 20, 20, 20); // Well clear of the rail
+      const track = new PrismaticJoint({ bodyA: rail, bodyB: slider, lockRotation: false });
+      world.registerConstraint(track);
+
+      expect(track.isFixed()).toBe(false);
+      rail.y = 50;
+      rail.prevY = 50;
+      world.step();
+
+      // Both bodies meet halfway across the axis
+      expect(rail.y).toBeCloseTo(25);
+      expect(slider.y).toBeCloseTo(25);
+    });
+  });
+
+  describe('Spring', () => {
+    it('should settle where the spring force balances gravity', () => {
+      world.gravity = 100;
+      const body = createBody(world, 300, 100, 20, 20);
+      const spring = new Spring({ bodyA: null, bodyB: body, pointA: { x: 300, y: 50 }, stiffness: 50, damping: 10 });
+      world.registerConstraint(spring);
+
+      for (let i = 0; i < 600; i++) {
+        world.step();
+      }
+
+      // Stretch = m·g / k = 100 / 50
+      expect(spring.getWorldPointB().y - 50).toBeCloseTo(52, 0);
+    });
+
+    it('should feel the same at any time step and iteration count', () => {
+      const finalPosition = (timeStep: number, constraintIterations: number) => {
+        const stepWorld = new World(container, { gravity: 0, friction: 1, timeStep });
+        stepWorld.constraintIterations = constraintIterations;
+        const body = createBody(stepWorld, 400, 100, 20, 20);
+        stepWorld.registerConstraint(new Spring({ bodyA: null, bodyB: body, pointA: { x: 300, y: 100 }, length: 50, stiffness: 20 }));
+
+        stepWorld.advance(0.5);
+        return body.x;
+      };
+
+      const reference = finalPosition(1 / 60, 2);
+      expect(reference).toBeLessThan(-20); // Pulled most of the way back in half a second
+      expect(finalPosition(1 / 120, 2)).toBeCloseTo(reference, -1);
+      expect(finalPosition(1 / 60, 8)).toBeCloseTo(reference, 5);
+    });
+
+    it('should pull both bodies towards each other', () => {
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 300, 100, 20, 20);
+      world.registerConstraint(new Spring({ bodyA: a, bodyB: b, length: 100 }));
+
+      world.step();
+
+      expect(a.x).toBeGreaterThan(0);
+      expect(b.x).toBeLessThan(0);
+      expect(a.x).toBeCloseTo(-b.x);
+    });
+
+    it('should wake a sleeping body when stretched', () => {
+      world.enableSleeping = true;
+      const a = createBody(world, 100, 100, 20, 20);
+      const b = createBody(world, 200, 100, 20, 20);
+      world.registerConstraint(new Spring({ bodyA: a, bodyB: b }));
+      b.setSleeping(true);
+      world.step();
+      expect(b.isSleeping).toBe(true);
+
+      a.x = -50;
+      a.prevX = -50;
+      world.step();
+
+      expect(b.isSleeping).toBe(false);
+      world.step();
+      expect(b.x).toBeLessThan(0);
+    });
+  });
+
+  describe('Motor', () => {
+    it('should bring a body to its target position', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      world.registerConstraint(new Motor({ body, target: { x: 300, y: 150 }, frequency: 2 }));
+
+      for (let i = 0; i < 120; i++) {
+        world.step();
+      }
+
+      const position = body.getWorldPosition();
+      expect(position.x).toBeCloseTo(300, 0);
+      expect(position.y).toBeCloseTo(150, 0);
+    });
+
+    it('should limit its force', () => {
+      const body = createBody(world, 100, 100, 20, 20, { mass: 2 });
+      const motor = new Motor({ body, target: { x: 700, y: 100 }, maxForce: 120 });
+      world.registerConstraint(motor);
+
+      expect(motor.getForce(world.timeStep).x).toBe(120);
+
+      world.step();
+      // a = F / m = 60 px/s², one step of 1/60 s
+      expect(body.x).toBeCloseTo(60 / 3600);
+    });
+
+    it('should wake its body and a paused loop when retargeted', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      const motor = new Motor({ body, target: { x: 100, y: 100 } });
+      world.registerConstraint(motor);
+      body.setSleeping(true);
+      const resume = vi.spyOn(world, 'resume');
+
+      motor.target = { x: 300, y: 100 };
+
+      expect(body.isSleeping).toBe(false);
+      expect(resume).toHaveBeenCalled();
+      world.step();
+      expect(body.x).toBeGreaterThan(0);
+    });
+
+    it('should hold a target velocity', () => {
+      world.gravity = 980;
+      const body = createBody(world, 100, 100, 20, 20);
+      world.registerConstraint(new Motor({ body, targetVelocity: { x: 120, y: 0 }, maxForce: 10000 }));
+
+      for (let i = 0; i < 30; i++) {
+        world.step();
+      }
+
+      expect((body.x - body.prevX) * 60).toBeCloseTo(120, 0);
+      expect(body.y - body.prevY).toBeCloseTo(0, 1);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { World, type WorldConfig } from '../src/World.js';
+import { createBody } from './helpers.js';
+
+describe('World resize', () => {
+  let container: HTMLElement;
+  let width: number;
+  let height: number;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Container size can be changed by the tests
+    width = 800;
+    height = 600;
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: width, bottom: height,
+      width, height, x: 0, y: 0, toJSON: () => {}
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createWorld(config: WorldConfig = {}): World {
+    return new World(container, { gravity: 0, friction: 1, ...config });
+  }
+
+  it('should measure the container again', () => {
+    const world = createWorld();
+
+    width = 400;
+    height = 300;
+    world.resize();
+
+    expect(world.bounds).toEqual({ x: 0, y: 0, width: 400, height: 300 });
+  });
+
+  it('should keep bounds given in the config unless new ones are passed', () => {
+    const world = createWorld({ bounds: { shape: 'circle', x: 300, y: 300, radius: 200 } });
+
+    width = 400;
+    world.resize();
+    expect(world.bounds).toEqual({ shape: 'circle', x: 300, y: 300, radius: 200 });
+
+    world.resize({ shape: 'circle', x: 200, y: 200, radius: 100 });
+    expect(world.bounds).toEqual({ shape: 'circle', x: 200, y: 200, radius: 100 });
+  });
+
+  it('should push bodies left outside back in, keeping their velocity', () => {
+    const world = createWorld();
+    const ball = createBody(world, 700, 500, 20, 20); // radius 10, centre (700, 500)
+    ball.prevX = ball.x - 3;
+
+    width = 400;
+    height = 300;
+    world.resize();
+
+    const bounds = ball.getBounds();
+    expect(bounds.maxX).toBeCloseTo(400);
+    expect(bounds.maxY).toBeCloseTo(300);
+    expect(ball.x - ball.prevX).toBeCloseTo(3);
+  });
+
+  it('should move bodies to the same relative place when scaling', () => {
+    const world = createWorld({ resizeMode: 'scale' });
+    const ball = createBody(world, 600, 150, 20, 20);
+
+    width = 400;
+    height = 300;
+    world.resize();
+
+    expect(ball.getCenter().x).toBeCloseTo(300);
+    expect(ball.getCenter().y).toBeCloseTo(75);
+  });
+
+  it('should leave bodies alone with mode none', () => {
+    const world = createWorld();
+    const ball = createBody(world, 700, 500, 20, 20);
+
+    width = 400;
+    world.resize(undefined, 'none');
+
+    expect(ball.getCenter()).toEqual({ x: 700, y: 500 });
+  });
+
+  it('should not move static bodies', () => {
+    const world = createWorld({ resizeMode: 'scale' });
+    const letter = createBody(world, 600, 150, 20, 20, { isStatic: true });
+
+    width = 400;
+    world.resize();
+
+    expect(letter.x).toBe(0);
+    expect(letter.y).toBe(0);
+  });
+
+  it('should emit resize with the old and new bounds', () => {
+    const world = createWorld();
+    const handler = vi.fn();
+    world.on('resize', handler);
+
+    width = 400;
+    world.resize();
+
+    expect(handler).toHaveBeenCalledWith({
+      bounds: { x: 0, y: 0, width: 400, height: 600 },
+      previousBounds: { x: 0, y: 0, width: 800, height: 600 }
+    });
+  });
+
+  describe('autoResize', () => {
+    let observed: Element[];
+    let notify: () => void;
+
+    beforeEach(() => {
+      observed = [];
+      vi.stubGlobal('ResizeObserver', class {
+        constructor(callback: () => void) {
+          notify = callback;
+        }
+        observe(element: Element) {
+          observed.push(element);
+        }
+        unobserve() {}
+        disconnect() {}
+      });
+    });
+
+    it('should follow the container size', () => {
+      const world = createWorld();
+      expect(observed).toEqual([container]);
+
+      width = 500;
+      notify();
+
+      expect(world.bounds).toEqual({ x: 0, y: 0, width: 500, height: 600 });
+    });
+
+    it('should ignore notifications without a size change', () => {
+      const world = createWorld();
+      const handler = vi.fn();
+      world.on('resize', handler);
+
+      notify(); // Sent when observing starts
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should be off by default when bounds are given', () => {
+      createWorld({ bounds: { x: 0, y: 0, width: 300, height: 300 } });
+      expect(observed).toEqual([]);
+
+      createWorld({ bounds: { x: 0, y: 0, width: 300, height: 300 }, autoResize: true });
+      expect(observed).toEqual([container]);
+    });
+  });
+
+  describe('origins', () => {
+    it('should measure origins in scrolled containers', () => {
+      Object.defineProperty(container, 'scrollTop', { value: 200, configurable: true });
+      const world = createWorld();
+
+      // Drawn at the top of the view, 200px down the content
+      const ball = createBody(world, 100, 0, 20, 20);
+
+      expect(ball.getWorldPosition()).toEqual({ x: 100, y: 200 });
+      expect(world.clientToWorld(100, 0)).toEqual({ x: 100, y: 200 });
+      expect(world.worldToClient(100, 200)).toEqual({ x: 100, y: 0 });
+    });
+
+    it('should measure origins again on resize, moving bodies with them', () => {
+      const world = createWorld();
+      const letter = createBody(world, 100, 100, 20, 20, { isStatic: true });
+
+      // The text reflowed onto the next line
+      letter.element.getBoundingClientRect = () => ({
+        left: 20, top: 140, right: 40, bottom: 160,
+        width: 20, height: 20, x: 20, y: 140, toJSON: () => {}
+      });
+      width = 400;
+      world.resize();
+
+      expect(letter.getWorldPosition()).toEqual({ x: 20, y: 140 });
+    });
+
+    it('should measure homes again on resize, even for lifted bodies', () => {
+      const world = createWorld();
+      const ball = createBody(world, 100, 100, 20, 20);
+      ball.x = 30;
+      world.render(); // Out of the flow
+
+      // The text reflowed: the element's place in the flow moved to the next line
+      ball.element.getBoundingClientRect = () => ball.element.style.position === 'absolute'
+        ? { left: 130, top: 100, right: 150, bottom: 120, width: 20, height: 20, x: 130, y: 100, toJSON: () => {} }
+        : { left: 20, top: 140, right: 40, bottom: 160, width: 20, height: 20, x: 20, y: 140, toJSON: () => {} };
+      width = 400;
+      world.resize();
+
+      expect({ x: ball.homeX, y: ball.homeY }).toEqual({ x: 20, y: 140 });
+      expect(ball.getWorldPosition()).toEqual({ x: 130, y: 100 });
+      expect(ball.element.style.position).toBe('absolute');
+    });
+
+    it('should measure the layout box, not the transformed one', () => {
+      const world = createWorld();
+      const ball = createBody(world, 100, 100, 20, 20);
+      ball.element.getBoundingClientRect = () => {
+        const offset = ball.element.style.transform ? 50 : 0; // Drawn 50px away while transformed
+        return { left: 100 + offset, top: 100, right: 120 + offset, bottom: 120, width: 20, height: 20, x: 100 + offset, y: 100, toJSON: () => {} };
+      };
+      ball.element.style.transform = 'translate(50px, 0px)';
+
+      ball.updateOrigin();
+
+      expect(ball.originX).toBe(100);
+      expect(ball.element.style.transform).toBe('translate(50px, 0px)');
+    });
+  });
+});
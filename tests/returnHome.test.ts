@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { World } from '../src/World.js';
+import { Body } from '../src/Body.js';
+import { createBody } from './helpers.js';
+
+describe('Returning home', () => {
+  let container: HTMLElement;
+  let world: World;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    container = document.createElement('div');
+    container.id = 'world';
+    document.body.appendChild(container);
+
+    // Mock getBoundingClientRect
+    container.getBoundingClientRect = () => ({
+      left: 0, top: 0, right: 800, bottom: 600,
+      width: 800, height: 600, x: 0, y: 0, toJSON: () => {}
+    });
+
+    world = new World(container, { friction: 1 });
+  });
+
+  function run(steps: number): void {
+    for (let i = 0; i < steps; i++) {
+      world.step();
+    }
+  }
+
+  // Blown away from its origin, still flying and spinning
+  function explode(body: Body): void {
+    body.x = 150;
+    body.y = -80;
+    body.prevX = 140;
+    body.prevY = -85;
+    body.angle = 2;
+    body.prevAngle = 1.9;
+  }
+
+  describe('returnHome', () => {
+    it('should spring back to the origin against gravity and stay there', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      explode(body);
+      const arrived = vi.fn();
+      body.on('returnedHome', arrived);
+
+      body.returnHome();
+      expect(body.isReturningHome).toBe(true);
+      run(240);
+
+      expect(arrived).toHaveBeenCalledTimes(1);
+      expect(body.isReturningHome).toBe(false);
+      expect(body.isStatic).toBe(true);
+      expect({ x: body.x, y: body.y, angle: body.angle }).toEqual({ x: 0, y: 0, angle: 0 });
+
+      run(60);
+      expect(body.y).toBe(0);
+    });
+
+    it('should return to the page flow, not where it was first rendered', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      world.gravity = 0;
+      body.prevX = body.x - 5; // Already moving before the first frame
+      run(10);
+      body.render(); // Taken out of the flow 50px to the right
+      expect(body.originX).toBeCloseTo(150);
+      explode(body);
+
+      body.returnHome({ duration: 0.5 });
+      run(30);
+      expect(body.getWorldPosition()).toEqual({ x: 100, y: 100 });
+
+      explode(body);
+      body.returnHome({ restoreLayout: true });
+      let before = body.getWorldPosition();
+      for (let i = 0; i < 240 && body.isReturningHome; i++) {
+        before = body.getWorldPosition();
+        world.step();
+      }
+      // Arriving and reflowing doesn't make it jump
+      expect(body.getWorldPosition()).toEqual({ x: 100, y: 100 });
+      expect(Math.abs(before.x - 100)).toBeLessThan(1);
+      expect(Math.abs(before.y - 100)).toBeLessThan(1);
+    });
+
+    it('should measure homes with lifted siblings put back in the flow', () => {
+      const first = createBody(world, 100, 100, 20, 20);
+      first.x = 30;
+      world.render(); // Out of the flow
+
+      // Laid out after the first element while it is in the flow, at its place otherwise
+      const element = document.createElement('div');
+      container.appendChild(element);
+      element.getBoundingClientRect = () => {
+        const left = first.element.style.position === 'absolute' ? 100 : 120;
+        return { left, top: 100, right: left + 20, bottom: 120, width: 20, height: 20, x: left, y: 100, toJSON: () => {} };
+      };
+      const second = new Body(element, world);
+      world.registerBody(second);
+      world.render();
+
+      expect({ x: second.homeX, y: second.homeY }).toEqual({ x: 120, y: 100 });
+      expect({ x: first.homeX, y: first.homeY }).toEqual({ x: 100, y: 100 });
+      expect(first.element.style.position).toBe('absolute');
+    });
+
+    it('should overshoot a little with the default spring', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      body.x = 100;
+      body.prevX = 100;
+
+      body.returnHome();
+      let lowest = Infinity;
+      for (let i = 0; i < 120; i++) {
+        world.step();
+        lowest = Math.min(lowest, body.x);
+      }
+
+      expect(lowest).toBeLessThan(0);
+    });
+
+    it('should glide home over the duration, easing out', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      explode(body);
+      const arrived = vi.fn();
+      world.on('returnedHome', arrived);
+
+      body.returnHome({ duration: 0.5 });
+      run(15); // Half way through the time
+
+      expect(body.x).toBeCloseTo(150 / 8);
+      expect(body.y).toBeCloseTo(-80 / 8);
+      expect(arrived).not.toHaveBeenCalled();
+
+      run(15);
+      expect(arrived).toHaveBeenCalledWith({ body });
+      expect(body.x).toBe(0);
+    });
+
+    it('should spin back the short way round', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      body.angle = 4 * Math.PI + 0.3;
+      body.prevAngle = body.angle;
+
+      body.returnHome({ duration: 1 });
+      world.step();
+
+      expect(body.angle).toBeGreaterThan(0);
+      expect(body.angle).toBeLessThan(0.3);
+    });
+
+    it('should push other bodies out of the way', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      body.x = 100;
+      body.prevX = 100;
+      const blocker = createBody(world, 140, 100, 20, 20);
+      world.gravity = 0;
+
+      body.returnHome({ duration: 0.5 });
+      run(40);
+
+      expect(body.x).toBe(0);
+      expect(blocker.getCenter().x).toBeLessThan(120);
+    });
+
+    it('should stop when the body is made dynamic', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      explode(body);
+
+      body.returnHome();
+      run(5);
+      body.setStatic(false);
+
+      expect(body.isReturningHome).toBe(false);
+    });
+
+    it('should keep a paused loop going while bodies return', () => {
+      const body = createBody(world, 100, 100, 20, 20, { isStatic: true });
+
+      expect(world['_isEverythingAsleep']()).toBe(true);
+      body.x = 50;
+      body.returnHome();
+      expect(world['_isEverythingAsleep']()).toBe(false);
+    });
+  });
+
+  it('should send every body home with reassembleAll', () => {
+    const bodies = [createBody(world, 100, 100, 20, 20), createBody(world, 200, 100, 20, 20), createBody(world, 300, 100, 20, 20)];
+    bodies.forEach(explode);
+
+    world.reassembleAll({ duration: 0.25 });
+    run(20);
+
+    for (const body of bodies) {
+      expect(body.getWorldPosition()).toEqual({ x: body.homeX, y: body.homeY });
+      expect(body.isStatic).toBe(true);
+    }
+  });
+
+  describe('restoreLayout', () => {
+    it('should put back the inline styles the element had', () => {
+      const style = document.createElement('style');
+      style.textContent = 'span { display: inline; }';
+      document.head.appendChild(style);
+      const body = createBody(world, 100, 100, 20, 20, {}, 'span'); // Inline, so the body makes it inline-block
+      body.element.style.color = 'red';
+      body.x = 10;
+      body.render();
+      expect(body.element.style.position).toBe('absolute');
+      expect(body.element.style.display).toBe('inline-block');
+
+      body.restoreLayout();
+
+      expect(body.element.style.position).toBe('');
+      expect(body.element.style.left).toBe('');
+      expect(body.element.style.top).toBe('');
+      expect(body.element.style.transform).toBe('');
+      expect(body.element.style.display).toBe('');
+      expect(body.element.style.color).toBe('red');
+      style.remove();
+    });
+
+    it('should keep inline styles set before the body was created', () => {
+      const element = document.createElement('div');
+      element.style.transform = 'rotate(5deg)';
+      element.style.display = 'flex';
+      container.appendChild(element);
+      const body = new Body(element, world);
+      world.registerBody(body);
+      body.x = 10;
+      body.render();
+
+      body.restoreLayout();
+
+      expect(element.style.transform).toBe('rotate(5deg)');
+      expect(element.style.display).toBe('flex');
+    });
+
+    it('should move the body to its origin and measure it again', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      explode(body);
+      body.returnHome({ duration: 0.1 });
+
+      // Back in the flow the text lands somewhere else
+      body.element.getBoundingClientRect = () => ({
+        left: 60, top: 40, right: 80, bottom: 60,
+        width: 20, height: 20, x: 60, y: 40, toJSON: () => {}
+      });
+      body.restoreLayout();
+
+      expect(body.isReturningHome).toBe(false);
+      expect(body.getWorldPosition()).toEqual({ x: 60, y: 40 });
+      expect(body.x - body.prevX).toBe(0);
+    });
+
+    it('should happen on arrival when asked', () => {
+      const body = createBody(world, 100, 100, 20, 20);
+      explode(body);
+      body.render();
+
+      body.returnHome({ duration: 0.1, restoreLayout: true });
+      run(6);
+
+      expect(body.element.style.position).toBe('');
+    });
+  });
+});